@@ -1,7 +1,9 @@
 /**
  * Built-in Agents Registry
  * 
- * Lists all agents bundled with the beddel package.
+ * Discovers all agents bundled with the beddel package: every `.yaml` file
+ * under this directory is an agent, addressed by its namespaced ID
+ * (`category/name`) or, when the name is unique, by its short name.
  * These are available automatically without user configuration.
  * 
  * Agents are organized by category:
@@ -14,45 +16,98 @@
  */
 
 import { fileURLToPath } from 'url';
-import { dirname, join } from 'path';
+import { dirname, join, sep } from 'path';
+import { readdirSync } from 'fs';
 
 // Get the directory where built-in agents are located
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 /**
- * Built-in agent definitions with their category paths
- */
-export const BUILTIN_AGENT_PATHS: Record<string, string> = {
-  // Chat assistants
-  'assistant': 'chat/assistant.yaml',
-  'assistant-bedrock': 'chat/assistant-bedrock.yaml',
-  'assistant-openrouter': 'chat/assistant-openrouter.yaml',
-  
-  // MCP integrations
-  'assistant-gitmcp': 'mcp/assistant-gitmcp.yaml',
-  
-  // Google Business
-  'business-analyzer': 'google-business/business-analyzer.yaml',
-  
-  // Marketing
-  'newsletter-signup': 'marketing/newsletter-signup.yaml',
-  
-  // Utility
-  'text-generator': 'utility/text-generator.yaml',
-  
-  // Observability
-  'observability-demo': 'observability/observability-demo.yaml',
-  'observability-demo-stream': 'observability/observability-demo-stream.yaml',
-  
-  // Examples
-  'multi-step-assistant': 'examples/multi-step-assistant.yaml',
-};
-
-/**
- * List of built-in agent IDs available in the package
- */
-export const BUILTIN_AGENTS = Object.keys(BUILTIN_AGENT_PATHS) as readonly string[];
+ * Validate agentId to prevent path traversal attacks.
+ * Allows namespaced IDs (`marketing/newsletter-signup`): each segment may only
+ * contain alphanumeric characters, hyphens, and underscores.
+ */
+export function isValidAgentId(agentId: string): boolean {
+  if (typeof agentId !== 'string' || agentId.length === 0) {
+    return false;
+  }
+  const safePattern = /^[a-zA-Z0-9_-]+(\/[a-zA-Z0-9_-]+)*$/;
+  return safePattern.test(agentId);
+}
+
+/**
+ * Find agent YAML files in a directory and its subfolders.
+ * 
+ * @returns Map of namespaced agent ID (path without `.yaml`) to relative path.
+ *          Files whose names are not valid agent IDs are skipped.
+ */
+export function discoverAgentFiles(directory: string): Record<string, string> {
+  const agents: Record<string, string> = {};
+  let entries: string[];
+  try {
+    entries = readdirSync(directory, { recursive: true, encoding: 'utf-8' });
+  } catch {
+    return agents;
+  }
+
+  const agentIds = entries
+    .filter((entry) => entry.endsWith('.yaml'))
+    .map((entry) => entry.slice(0, -'.yaml'.length).split(sep).join('/'))
+    .filter(isValidAgentId)
+    .sort();
+
+  for (const agentId of agentIds) {
+    agents[agentId] = `${agentId}.yaml`;
+  }
+  return agents;
+}
+
+/**
+ * Built-in agent definitions, discovered from the category folders.
+ * Keys are namespaced IDs (e.g., 'chat/assistant').
+ */
+export const BUILTIN_AGENT_PATHS: Record<string, string> = discoverAgentFiles(__dirname);
+
+/**
+ * Short IDs for built-in agents (e.g., 'assistant' for 'chat/assistant').
+ * Only names that are unique across categories get an alias.
+ */
+export const BUILTIN_AGENT_ALIASES: Record<string, string> = (() => {
+  const aliases: Record<string, string> = {};
+  const duplicates = new Set<string>();
+  for (const agentId of Object.keys(BUILTIN_AGENT_PATHS)) {
+    const name = agentId.slice(agentId.lastIndexOf('/') + 1);
+    if (name === agentId) continue;
+    if (name in aliases) duplicates.add(name);
+    aliases[name] = agentId;
+  }
+  for (const name of duplicates) {
+    delete aliases[name];
+  }
+  return aliases;
+})();
+
+/**
+ * Namespaced IDs of the built-in agents (e.g., 'chat/assistant')
+ */
+export const BUILTIN_AGENT_IDS = Object.keys(BUILTIN_AGENT_PATHS) as readonly string[];
+
+/**
+ * Get the short ID of a namespaced agent ID: its alias if it has one, else the ID itself
+ */
+function toShortAgentId(agentId: string): string {
+  const name = agentId.slice(agentId.lastIndexOf('/') + 1);
+  return BUILTIN_AGENT_ALIASES[name] === agentId ? name : agentId;
+}
+
+/**
+ * List of built-in agent IDs available in the package (short IDs, e.g., 'assistant')
+ * 
+ * @deprecated Use BUILTIN_AGENT_IDS. Agents whose short name is not unique
+ *             are listed here by their namespaced ID.
+ */
+export const BUILTIN_AGENTS = BUILTIN_AGENT_IDS.map(toShortAgentId) as readonly string[];
 
 export type BuiltinAgentId = keyof typeof BUILTIN_AGENT_PATHS;
 
@@ -64,36 +119,61 @@ export function getBuiltinAgentsPath(): string {
 }
 
 /**
- * Check if an agent ID is a built-in agent
+ * Get the namespaced ID for a built-in agent ID or short alias
+ */
+export function resolveBuiltinAgentId(agentId: string): string | null {
+  if (agentId in BUILTIN_AGENT_PATHS) return agentId;
+  return BUILTIN_AGENT_ALIASES[agentId] ?? null;
+}
+
+/**
+ * Check if an agent ID (or short alias) is a built-in agent
  */
 export function isBuiltinAgent(agentId: string): agentId is BuiltinAgentId {
-  return agentId in BUILTIN_AGENT_PATHS;
+  return resolveBuiltinAgentId(agentId) !== null;
 }
 
 /**
  * Get the full path to a built-in agent YAML file
  */
 export function getBuiltinAgentPath(agentId: string): string | null {
-  const relativePath = BUILTIN_AGENT_PATHS[agentId];
-  if (!relativePath) return null;
-  return join(__dirname, relativePath);
+  const builtinId = resolveBuiltinAgentId(agentId);
+  if (!builtinId) return null;
+  return join(__dirname, BUILTIN_AGENT_PATHS[builtinId]);
 }
 
 /**
- * Get all agents in a specific category
+ * Get the category of a namespaced agent ID (its first folder), or null
+ */
+export function getAgentCategory(agentId: string): string | null {
+  const index = agentId.indexOf('/');
+  return index === -1 ? null : agentId.slice(0, index);
+}
+
+/**
+ * Get all agents in a specific category (short IDs, as in BUILTIN_AGENTS)
  */
 export function getAgentsByCategory(category: string): string[] {
-  return Object.entries(BUILTIN_AGENT_PATHS)
-    .filter(([_, path]) => path.startsWith(`${category}/`))
-    .map(([id]) => id);
+  return BUILTIN_AGENT_IDS
+    .filter((agentId) => getAgentCategory(agentId) === category)
+    .map(toShortAgentId);
 }
 
+/**
+ * Categories of the built-in agents, discovered from their folders
+ */
+export const BUILTIN_AGENT_CATEGORIES = [
+  ...new Set(BUILTIN_AGENT_IDS.map(getAgentCategory).filter((category): category is string => category !== null)),
+] as readonly string[];
+
 /**
  * Available categories
+ * 
+ * @deprecated Use BUILTIN_AGENT_CATEGORIES, which includes every agent folder
  */
 export const AGENT_CATEGORIES = [
   'chat',
-  'mcp', 
+  'mcp',
   'google-business',
   'marketing',
   'utility',
@@ -101,4 +181,7 @@ export const AGENT_CATEGORIES = [
   'examples',
 ] as const;
 
+/**
+ * @deprecated Categories are discovered from folders; use string
+ */
 export type AgentCategory = typeof AGENT_CATEGORIES[number];
@@ -16,6 +16,12 @@ export type {
     ExecutionContext,
     PrimitiveHandler,
     BeddelResponse,
+    BeddelDataTypes,
+    BeddelUIMessage,
+    BeddelMessageMetadata,
+    RetryPolicy,
+    StepErrorInfo,
+    PlannedStep,
 } from './types';
 
 // Observability types - safe for client bundles (no Node.js deps)
@@ -25,4 +31,9 @@ export type {
     StepStartEvent,
     StepCompleteEvent,
     StepErrorEvent,
+    StepSkipEvent,
+    StepRetryEvent,
+    StepBranchEvent,
+    StepFallbackEvent,
+    StepErrorType,
 } from './types/observability';
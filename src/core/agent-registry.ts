@@ -0,0 +1,396 @@
+/**
+ * Beddel Protocol - Agent Registry
+ * 
+ * Resolves agent IDs to parsed workflows from a chain of pluggable sources
+ * (user agents directory, built-in agents, in-memory definitions, custom
+ * loaders for agents stored elsewhere). The first source that has an agent wins.
+ * 
+ * Parsed agents are cached; file-backed sources invalidate the cache when
+ * the modification time of the agent file, its `extends` bases or its
+ * includes changes.
+ * 
+ * Server-only: Uses Node.js fs.
+ */
+
+import { readdir, stat } from 'fs/promises';
+import { join, normalize, resolve, sep } from 'path';
+import type { ParsedYaml, YamlMetadata } from '../types';
+import { loadYaml, parseYaml } from './parser';
+import {
+    BUILTIN_AGENT_IDS,
+    getAgentCategory,
+    getBuiltinAgentPath,
+    getBuiltinAgentsPath,
+    isValidAgentId,
+} from '../agents';
+
+/**
+ * An agent found by a source, loaded lazily so cached agents are not re-parsed.
+ */
+export interface AgentEntry {
+    /**
+     * Changes whenever the definition changes (e.g., the mtimes of the agent's files).
+     * Entries without a version are never cached.
+     */
+    version?: string | number;
+    /** Load and parse the agent */
+    load(): Promise<ParsedYaml>;
+}
+
+/**
+ * Pluggable source of agent definitions.
+ * 
+ * @example
+ * const registry = new AgentRegistry([
+ *   new FileAgentSource('src/agents'),
+ *   new LoaderAgentSource((agentId) => db.agents.findYaml(agentId)),
+ *   new BuiltinAgentSource(),
+ * ]);
+ */
+export interface AgentSource {
+    /** Where agents come from, reported by listAgents() (e.g., 'user', 'builtin') */
+    readonly kind: string;
+    /** Find an agent, or null if this source does not have it */
+    find(agentId: string): Promise<AgentEntry | null>;
+    /** IDs of all agents in this source (optional: sources that cannot enumerate are not listed) */
+    list?(): Promise<string[]>;
+}
+
+/**
+ * An agent returned by AgentRegistry.listAgents().
+ */
+export interface AgentInfo {
+    /** Agent ID, namespaced by folder (e.g., 'marketing/newsletter-signup') */
+    id: string;
+    /** First folder of the ID, or null for top-level agents */
+    category: string | null;
+    /** Kind of the source that provides the agent ('user', 'builtin', ...) */
+    source: string;
+    metadata: YamlMetadata;
+}
+
+/**
+ * Loads an agent stored outside the filesystem, as YAML text or an
+ * already-parsed workflow. Returns null if the agent does not exist.
+ */
+export type AgentLoader = (agentId: string) => Promise<string | ParsedYaml | null>;
+
+/**
+ * Get a file's modification time, or null if it does not exist.
+ */
+async function getModifiedTime(path: string): Promise<number | null> {
+    try {
+        const stats = await stat(path);
+        return stats.isFile() ? stats.mtimeMs : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Version of an agent composed from files: their modification times, so
+ * editing (or creating) any of them invalidates the cache.
+ * Returns null if the agent file itself (the first) does not exist.
+ */
+async function getFilesVersion(files: string[]): Promise<string | null> {
+    const times = await Promise.all(files.map(getModifiedTime));
+    if (times[0] === null) return null;
+    return times.map((time) => time ?? 'missing').join(':');
+}
+
+/**
+ * Entry for an agent file. Its version covers the files the previous load
+ * was composed from (just the agent file before the first load).
+ * 
+ * @param composedFiles - Files of each agent's last load, by agent path; updated by load()
+ */
+async function findAgentFile(
+    path: string,
+    agentsDir: string,
+    composedFiles: Map<string, string[]>
+): Promise<AgentEntry | null> {
+    const version = await getFilesVersion(composedFiles.get(path) ?? [path]);
+    if (version === null) {
+        return null;
+    }
+
+    return {
+        version,
+        load: async () => {
+            const files: string[] = [];
+            const yaml = await loadYaml(path, { agentsDir, files });
+            composedFiles.set(path, [...new Set(files)]);
+            return yaml;
+        },
+    };
+}
+
+/**
+ * Agents stored as `<agentId>.yaml` files in a directory. Subfolders give
+ * namespaced IDs (`marketing/newsletter-signup.yaml` is `marketing/newsletter-signup`).
+ * The directory is also where their `extends`/`include` resolve.
+ */
+export class FileAgentSource implements AgentSource {
+    readonly kind = 'user';
+    private directory: string;
+    private composedFiles = new Map<string, string[]>();
+
+    /**
+     * @param directory - Agents directory (relative to CWD or absolute)
+     */
+    constructor(directory: string) {
+        this.directory = resolve(directory);
+    }
+
+    async find(agentId: string): Promise<AgentEntry | null> {
+        const path = normalize(join(this.directory, `${agentId}.yaml`));
+
+        // Security: ensure resolved path is within the agents directory
+        if (!path.startsWith(this.directory + sep)) {
+            return null;
+        }
+
+        return findAgentFile(path, this.directory, this.composedFiles);
+    }
+
+    async list(): Promise<string[]> {
+        let entries: string[];
+        try {
+            entries = await readdir(this.directory, { recursive: true, encoding: 'utf-8' });
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return [];
+            }
+            throw error;
+        }
+
+        return entries
+            .filter((entry) => entry.endsWith('.yaml'))
+            .map((entry) => entry.slice(0, -'.yaml'.length).split(sep).join('/'))
+            .filter(isValidAgentId)
+            .sort();
+    }
+}
+
+/**
+ * Agents bundled with the package (see BUILTIN_AGENT_PATHS).
+ * Found by namespaced ID or short alias.
+ */
+export class BuiltinAgentSource implements AgentSource {
+    readonly kind = 'builtin';
+    private composedFiles = new Map<string, string[]>();
+
+    async find(agentId: string): Promise<AgentEntry | null> {
+        const path = getBuiltinAgentPath(agentId);
+        return path ? findAgentFile(path, getBuiltinAgentsPath(), this.composedFiles) : null;
+    }
+
+    async list(): Promise<string[]> {
+        return [...BUILTIN_AGENT_IDS];
+    }
+}
+
+/**
+ * Agents defined in code, as YAML text or parsed workflows.
+ * YAML text is validated when the agent is first loaded.
+ */
+export class MemoryAgentSource implements AgentSource {
+    readonly kind = 'memory';
+    private agents = new Map<string, { definition: string | ParsedYaml; version: number }>();
+    private nextVersion = 0;
+
+    /**
+     * @param agents - Initial agents keyed by ID
+     */
+    constructor(agents: Record<string, string | ParsedYaml> = {}) {
+        for (const [agentId, definition] of Object.entries(agents)) {
+            this.set(agentId, definition);
+        }
+    }
+
+    /**
+     * Add or replace an agent.
+     */
+    set(agentId: string, definition: string | ParsedYaml): void {
+        this.agents.set(agentId, { definition, version: this.nextVersion++ });
+    }
+
+    /**
+     * Remove an agent.
+     */
+    delete(agentId: string): void {
+        this.agents.delete(agentId);
+    }
+
+    async find(agentId: string): Promise<AgentEntry | null> {
+        const agent = this.agents.get(agentId);
+        if (!agent) {
+            return null;
+        }
+
+        const { definition, version } = agent;
+        return {
+            version,
+            load: async () => typeof definition === 'string'
+                ? parseYaml(definition, { filename: agentId })
+                : definition,
+        };
+    }
+
+    async list(): Promise<string[]> {
+        return [...this.agents.keys()];
+    }
+}
+
+/**
+ * Agents fetched by a custom async loader (e.g., from a database).
+ * Loaded agents are not cached: the loader is called on every lookup.
+ */
+export class LoaderAgentSource implements AgentSource {
+    readonly kind: string;
+    private loader: AgentLoader;
+
+    /**
+     * @param loader - Fetches an agent by ID
+     * @param kind - Source name reported by listAgents() (default: 'loader')
+     */
+    constructor(loader: AgentLoader, kind = 'loader') {
+        this.loader = loader;
+        this.kind = kind;
+    }
+
+    async find(agentId: string): Promise<AgentEntry | null> {
+        const definition = await this.loader(agentId);
+        if (definition === null || definition === undefined) {
+            return null;
+        }
+
+        return {
+            load: async () => typeof definition === 'string'
+                ? parseYaml(definition, { filename: agentId })
+                : definition,
+        };
+    }
+}
+
+/**
+ * Resolves agent IDs against an ordered list of sources.
+ */
+export class AgentRegistry {
+    private sources: AgentSource[];
+    private cache = new Map<string, { source: AgentSource; version: string | number; yaml: ParsedYaml }>();
+
+    /**
+     * @param sources - Sources to search, in priority order
+     */
+    constructor(sources: AgentSource[]) {
+        this.sources = sources;
+    }
+
+    /**
+     * Find and load an agent.
+     * 
+     * @throws Error if the agentId is invalid or no source has the agent
+     */
+    async get(agentId: string): Promise<ParsedYaml> {
+        // Security: Validate agentId to prevent path traversal
+        if (!isValidAgentId(agentId)) {
+            throw new Error(`[Beddel] Invalid agentId: "${agentId}"`);
+        }
+
+        for (const source of this.sources) {
+            const entry = await source.find(agentId);
+            if (!entry) continue;
+
+            const cached = this.cache.get(agentId);
+            if (cached && cached.source === source && entry.version !== undefined && cached.version === entry.version) {
+                return cached.yaml;
+            }
+
+            const yaml = await entry.load();
+            if (entry.version !== undefined) {
+                this.cache.set(agentId, { source, version: entry.version, yaml });
+            } else {
+                this.cache.delete(agentId);
+            }
+            return yaml;
+        }
+
+        throw new Error(`[Beddel] Agent not found: ${agentId}`);
+    }
+
+    /**
+     * List the agents of every source that can enumerate them, with their
+     * metadata. An ID provided by several sources is listed once, from the
+     * source that get() would use. Agents that fail to load are skipped
+     * with a warning.
+     */
+    async listAgents(): Promise<AgentInfo[]> {
+        const agents: AgentInfo[] = [];
+        const seen = new Set<string>();
+
+        for (const source of this.sources) {
+            if (!source.list) continue;
+
+            for (const id of await source.list()) {
+                if (seen.has(id)) continue;
+                seen.add(id);
+
+                try {
+                    const yaml = await this.get(id);
+                    agents.push({ id, category: getAgentCategory(id), source: source.kind, metadata: yaml.metadata });
+                } catch (error) {
+                    console.warn(`[Beddel] Skipping agent "${id}" in listing:`, error instanceof Error ? error.message : error);
+                }
+            }
+        }
+
+        return agents;
+    }
+
+    /**
+     * Drop all cached agents (e.g., after editing files an agent includes).
+     */
+    clearCache(): void {
+        this.cache.clear();
+    }
+}
+
+/**
+ * Options for createAgentRegistry().
+ */
+export interface AgentRegistryOptions {
+    /** Path to user-defined agents (relative to CWD). Default: 'src/agents' */
+    agentsPath?: string;
+    /** Disable built-in agents bundled with the package. Default: false */
+    disableBuiltinAgents?: boolean;
+    /** Extra sources, searched after user agents and before built-ins */
+    sources?: AgentSource[];
+}
+
+/**
+ * Create the standard registry: user agents first (so they can override
+ * built-ins), then any extra sources, then built-in agents.
+ */
+export function createAgentRegistry(options: AgentRegistryOptions = {}): AgentRegistry {
+    const sources: AgentSource[] = [
+        new FileAgentSource(join(process.cwd(), options.agentsPath || 'src/agents')),
+        ...(options.sources ?? []),
+    ];
+    if (!options.disableBuiltinAgents) {
+        sources.push(new BuiltinAgentSource());
+    }
+    return new AgentRegistry(sources);
+}
+
+/**
+ * List user and built-in agents with their metadata, category and source.
+ * 
+ * @example
+ * const agents = await listAgents({ agentsPath: 'src/agents' });
+ * // [{ id: 'support/triage', category: 'support', source: 'user', metadata: {...} },
+ * //  { id: 'chat/assistant', category: 'chat', source: 'builtin', metadata: {...} }, ...]
+ */
+export async function listAgents(options: AgentRegistryOptions = {}): Promise<AgentInfo[]> {
+    return createAgentRegistry(options).listAgents();
+}
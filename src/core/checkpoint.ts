@@ -0,0 +1,236 @@
+/**
+ * Beddel Protocol - Workflow Checkpoints
+ * 
+ * Persists the state of a workflow run after each top-level step so the run
+ * can be resumed from the last successful step with WorkflowExecutor.resume().
+ * 
+ * Server-only: The filesystem store uses Node.js fs.
+ */
+
+import { randomUUID } from 'crypto';
+import { mkdir, readFile, writeFile, rm, rename, open, stat } from 'fs/promises';
+import { join } from 'path';
+
+/**
+ * Saved state of a single workflow run.
+ * Everything in a checkpoint must be JSON-serializable.
+ */
+export interface Checkpoint {
+    /** Unique ID of the run */
+    runId: string;
+    /** metadata.name of the workflow that created the run */
+    workflow: string;
+    /** ID the agent was requested by (e.g., by createBeddelHandler) */
+    agentId?: string;
+    /** Original input passed to execute() */
+    input: unknown;
+    /** Snapshot of ExecutionContext.variables */
+    variables: Record<string, unknown>;
+    /** IDs of top-level steps that completed (or were skipped), in order */
+    completedSteps: string[];
+    /** Output of the last top-level step that ran */
+    lastResult: unknown;
+    /** 'running' until the run completes, fails, or suspends for input */
+    status: 'running' | 'completed' | 'failed' | 'suspended';
+    /** Names of env variables read so far; re-read on resume so their values stay masked */
+    env?: string[];
+    /** Step waiting for input, set while the run is suspended */
+    pending?: {
+        stepId: string;
+        payload: unknown;
+    };
+    /** Last save time (ms since epoch) */
+    updatedAt: number;
+}
+
+/**
+ * Pluggable storage backend for checkpoints.
+ * 
+ * @example
+ * const executor = new WorkflowExecutor(yaml, {
+ *   checkpointStore: new FileCheckpointStore('.beddel/checkpoints'),
+ * });
+ */
+export interface CheckpointStore {
+    /** Create or replace the checkpoint for `checkpoint.runId` */
+    save(checkpoint: Checkpoint): Promise<void>;
+    /** Load a checkpoint, or null if none exists for the run */
+    load(runId: string): Promise<Checkpoint | null>;
+    /** Remove a checkpoint (no-op if it does not exist) */
+    delete(runId: string): Promise<void>;
+    /**
+     * Atomically set a checkpoint's status to 'running' if its current status
+     * is one of `from` (and, when given, it was last saved at `updatedAt`).
+     * Returns the claimed checkpoint, or null if none exists or it did not
+     * match (e.g., another resume claimed it first).
+     */
+    claim(runId: string, from: Checkpoint['status'][], updatedAt?: number): Promise<Checkpoint | null>;
+}
+
+/**
+ * Validate runId to prevent path traversal in storage backends.
+ * Only allows alphanumeric characters, hyphens, and underscores.
+ */
+export function isValidRunId(runId: string): boolean {
+    return typeof runId === 'string' && /^[a-zA-Z0-9_-]+$/.test(runId);
+}
+
+/**
+ * Check a checkpoint against a claim's expected status and save time.
+ */
+function isClaimable(checkpoint: Checkpoint | null, from: Checkpoint['status'][], updatedAt?: number): checkpoint is Checkpoint {
+    return checkpoint !== null &&
+        from.includes(checkpoint.status) &&
+        (updatedAt === undefined || checkpoint.updatedAt === updatedAt);
+}
+
+/**
+ * Mark a checkpoint as claimed. The save time always moves forward, so a
+ * second claim expecting the old `updatedAt` fails.
+ */
+function markClaimed(checkpoint: Checkpoint): void {
+    checkpoint.status = 'running';
+    checkpoint.updatedAt = Math.max(Date.now(), checkpoint.updatedAt + 1);
+}
+
+/**
+ * Generate a new run ID.
+ */
+export function createRunId(): string {
+    return randomUUID();
+}
+
+/**
+ * In-memory checkpoint store. State is lost when the process exits,
+ * so this is mainly useful for tests and retrying failed runs in-process.
+ */
+export class MemoryCheckpointStore implements CheckpointStore {
+    private checkpoints = new Map<string, string>();
+
+    async save(checkpoint: Checkpoint): Promise<void> {
+        // Stored serialized so behavior matches the filesystem store
+        this.checkpoints.set(checkpoint.runId, JSON.stringify(checkpoint));
+    }
+
+    async load(runId: string): Promise<Checkpoint | null> {
+        const data = this.checkpoints.get(runId);
+        return data ? JSON.parse(data) as Checkpoint : null;
+    }
+
+    async delete(runId: string): Promise<void> {
+        this.checkpoints.delete(runId);
+    }
+
+    async claim(runId: string, from: Checkpoint['status'][], updatedAt?: number): Promise<Checkpoint | null> {
+        // No await between the read and the write, so concurrent claims cannot interleave
+        const data = this.checkpoints.get(runId);
+        const checkpoint = data ? JSON.parse(data) as Checkpoint : null;
+        if (!isClaimable(checkpoint, from, updatedAt)) {
+            return null;
+        }
+        markClaimed(checkpoint);
+        this.checkpoints.set(runId, JSON.stringify(checkpoint));
+        return checkpoint;
+    }
+}
+
+/** Age after which a claim lock file is treated as left by a crashed process */
+const STALE_LOCK_MS = 30_000;
+
+/**
+ * Filesystem checkpoint store. Writes one `<runId>.json` file per run.
+ * Claims take a `<runId>.json.lock` file; one older than 30s is assumed to
+ * be left by a crashed process and replaced.
+ */
+export class FileCheckpointStore implements CheckpointStore {
+    private directory: string;
+
+    /**
+     * @param directory - Directory for checkpoint files (relative to CWD or absolute)
+     */
+    constructor(directory: string) {
+        this.directory = directory;
+    }
+
+    private getPath(runId: string): string {
+        // Security: runId becomes part of a file path
+        if (!isValidRunId(runId)) {
+            throw new Error(`[Beddel] Invalid runId: "${runId}"`);
+        }
+        return join(this.directory, `${runId}.json`);
+    }
+
+    async save(checkpoint: Checkpoint): Promise<void> {
+        const path = this.getPath(checkpoint.runId);
+        await mkdir(this.directory, { recursive: true });
+
+        // Write to a temp file first so a crash never leaves a partial checkpoint
+        const tempPath = `${path}.tmp`;
+        await writeFile(tempPath, JSON.stringify(checkpoint), 'utf-8');
+        await rename(tempPath, path);
+    }
+
+    async load(runId: string): Promise<Checkpoint | null> {
+        try {
+            const data = await readFile(this.getPath(runId), 'utf-8');
+            return JSON.parse(data) as Checkpoint;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async delete(runId: string): Promise<void> {
+        await rm(this.getPath(runId), { force: true });
+    }
+
+    /**
+     * Create the claim lock file, replacing one a crashed process left behind.
+     * Returns null while another claim holds the lock.
+     */
+    private async acquireLock(lockPath: string) {
+        for (let attempt = 0; attempt < 2; attempt++) {
+            try {
+                return await open(lockPath, 'wx');
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+                    throw error;
+                }
+            }
+
+            // Locks are only held while a checkpoint is read and rewritten
+            const lockStat = await stat(lockPath).catch(() => null);
+            if (lockStat && Date.now() - lockStat.mtimeMs < STALE_LOCK_MS) {
+                return null;
+            }
+            await rm(lockPath, { force: true });
+        }
+        return null;
+    }
+
+    async claim(runId: string, from: Checkpoint['status'][], updatedAt?: number): Promise<Checkpoint | null> {
+        const lockPath = `${this.getPath(runId)}.lock`;
+        await mkdir(this.directory, { recursive: true });
+
+        // An exclusively created lock file serializes claims across processes
+        const lock = await this.acquireLock(lockPath);
+        if (!lock) {
+            return null;
+        }
+
+        try {
+            const checkpoint = await this.load(runId);
+            if (!isClaimable(checkpoint, from, updatedAt)) {
+                return null;
+            }
+            markClaimed(checkpoint);
+            await this.save(checkpoint);
+            return checkpoint;
+        } finally {
+            await lock.close();
+            await rm(lockPath, { force: true });
+        }
+    }
+}
@@ -0,0 +1,93 @@
+/**
+ * Beddel Protocol - Agent Composition
+ * 
+ * Merge rules for `extends` and helpers for `include` directives.
+ * File loading, path checks and cycle detection live in the parser.
+ * 
+ * Server-only: Used by loadYaml.
+ */
+
+/**
+ * Check whether a value is a plain mapping.
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Get the path of an include directive: a mapping whose only key is `include`.
+ * 
+ * @example
+ * system:
+ *   include: "prompts/support.md"
+ * 
+ * @returns The include path, or null if the value is not a directive
+ */
+export function getIncludePath(value: unknown): string | null {
+    if (!isRecord(value)) return null;
+    const keys = Object.keys(value);
+    if (keys.length !== 1 || keys[0] !== 'include') return null;
+    return typeof value.include === 'string' ? value.include : null;
+}
+
+/**
+ * Merge two values: mappings are merged key by key, anything else
+ * (scalars, lists) is replaced by the override.
+ */
+export function deepMerge(base: unknown, override: unknown): unknown {
+    if (!isRecord(base) || !isRecord(override)) {
+        return override;
+    }
+    const merged: Record<string, unknown> = { ...base };
+    for (const [key, value] of Object.entries(override)) {
+        merged[key] = key in base ? deepMerge(base[key], value) : value;
+    }
+    return merged;
+}
+
+/**
+ * Merge a child's steps into its base workflow.
+ * Steps with the same `id` are deep-merged (so a child can override just
+ * `config.provider`); other child steps are appended in order.
+ */
+function mergeSteps(base: unknown, child: unknown): unknown {
+    if (!Array.isArray(base) || !Array.isArray(child)) {
+        return child ?? base;
+    }
+    const merged = [...base];
+    for (const step of child) {
+        const id = isRecord(step) ? step.id : undefined;
+        const index = id === undefined
+            ? -1
+            : merged.findIndex((s) => isRecord(s) && String(s.id) === String(id));
+        if (index >= 0) {
+            merged[index] = deepMerge(merged[index], step);
+        } else {
+            merged.push(step);
+        }
+    }
+    return merged;
+}
+
+/**
+ * Apply an agent document that `extends` another on top of its base.
+ * 
+ * - `metadata` is deep-merged
+ * - `workflow` steps are merged by `id`, new steps are appended
+ * - any other top-level key (`return`, `catch`) replaces the base's
+ * 
+ * @param base - The base agent (already composed)
+ * @param child - The extending document, without its `extends` key
+ */
+export function extendAgent(
+    base: Record<string, unknown>,
+    child: Record<string, unknown>
+): Record<string, unknown> {
+    const { metadata, workflow, ...rest } = child;
+    return {
+        ...base,
+        ...rest,
+        metadata: deepMerge(base.metadata, metadata ?? {}),
+        workflow: mergeSteps(base.workflow, workflow),
+    };
+}
@@ -0,0 +1,142 @@
+/**
+ * Beddel Protocol - Environment Access Policy
+ * 
+ * `$env.NAME` only reads variables the agent declares in `metadata.env` or
+ * that the host allows for every agent (`envAllowlist`); anything else is
+ * denied. Values read during a run are remembered so the executor can mask
+ * them in responses, traces and errors; checkpoints keep the names read, so a
+ * resumed run masks them too.
+ * 
+ * Server-only: Reads process.env.
+ */
+
+import { EnvAccessError } from './errors';
+
+/** Replacement for masked values */
+export const MASK = '***';
+
+/**
+ * Shorter values (ports, flags like "true") are not masked:
+ * replacing them would garble unrelated text.
+ */
+const MIN_MASKED_LENGTH = 4;
+
+/**
+ * Read an environment variable under a context's policy. Contexts built
+ * outside WorkflowExecutor (e.g., for calling resolveVariables directly)
+ * have no policy and read process.env unrestricted, as before `$env` was
+ * restricted.
+ */
+export function readEnv(env: EnvAccess | undefined, name: string): string | undefined {
+    return env ? env.read(name) : process.env[name];
+}
+
+/**
+ * Per-run access to environment variables.
+ * 
+ * @example
+ * const env = new EnvAccess(['APP_URL'], yaml.metadata.env);
+ * env.read('NOTION_DATABASE_ID'); // value, or EnvAccessError if undeclared
+ * env.mask({ id: process.env.NOTION_DATABASE_ID }); // { id: '***' }
+ */
+export class EnvAccess {
+    /** Variables every agent may read (passed on to sub-agents) */
+    readonly allowlist: readonly string[];
+    private allowed: Set<string>;
+    private names = new Set<string>();
+    private values = new Set<string>();
+
+    /**
+     * @param allowlist - Variables every agent may read (host configuration)
+     * @param declared - Variables this agent declares in metadata.env
+     */
+    constructor(allowlist: readonly string[] = [], declared: readonly string[] = []) {
+        this.allowlist = allowlist;
+        this.allowed = new Set([...allowlist, ...declared]);
+    }
+
+    /**
+     * Read an environment variable and remember its value for masking.
+     * 
+     * @throws EnvAccessError if the variable is neither declared nor allowlisted
+     */
+    read(name: string): string | undefined {
+        if (!this.allowed.has(name)) {
+            throw new EnvAccessError(name);
+        }
+
+        this.names.add(name);
+        const value = process.env[name];
+        if (value !== undefined && value.length >= MIN_MASKED_LENGTH) {
+            this.values.add(value);
+        }
+        return value;
+    }
+
+    /**
+     * Names of the variables read so far (stored in checkpoints).
+     */
+    readNames(): string[] {
+        return [...this.names];
+    }
+
+    /**
+     * Re-read variables an earlier run of the same agent read, so values
+     * restored from a checkpoint are masked. Names that are no longer
+     * allowed are skipped.
+     */
+    restore(names: readonly string[]): void {
+        for (const name of names) {
+            if (this.allowed.has(name)) {
+                this.read(name);
+            }
+        }
+    }
+
+    /**
+     * Replace every env value read so far with `***` in a string, or in the
+     * strings of an array or plain object (recursively). Other values are
+     * returned as-is.
+     */
+    mask<T>(value: T): T {
+        if (this.values.size === 0) {
+            return value;
+        }
+        return this.maskValue(value) as T;
+    }
+
+    private maskValue(value: unknown): unknown {
+        if (typeof value === 'string') {
+            let masked = value;
+            for (const secret of this.values) {
+                masked = masked.split(secret).join(MASK);
+            }
+            return masked;
+        }
+        if (Array.isArray(value)) {
+            return value.map((item) => this.maskValue(item));
+        }
+        if (typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype) {
+            const masked: Record<string, unknown> = {};
+            for (const [key, item] of Object.entries(value)) {
+                masked[key] = this.maskValue(item);
+            }
+            return masked;
+        }
+        return value;
+    }
+
+    /**
+     * Mask env values in an error's message and stack (in place), so logs and
+     * error responses do not leak them.
+     */
+    maskError(error: unknown): void {
+        if (this.values.size === 0 || !(error instanceof Error)) {
+            return;
+        }
+        error.message = this.mask(error.message);
+        if (error.stack) {
+            error.stack = this.mask(error.stack);
+        }
+    }
+}
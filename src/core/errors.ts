@@ -0,0 +1,167 @@
+/**
+ * Beddel Protocol - Error Classification
+ * 
+ * Maps thrown errors to safe, categorized error types.
+ * Used for trace events and for deciding which failures are retryable.
+ * 
+ * Server-only: Used within WorkflowExecutor during step execution.
+ */
+
+import type { StepErrorType } from '../types';
+
+/**
+ * Extract an HTTP status code from an error, if one is available.
+ * Checks AI SDK style `statusCode`/`status` properties first, then
+ * messages like "Notion API error (429): ..." from built-in primitives.
+ */
+function getStatusCode(error: Error): number | undefined {
+    const { statusCode, status } = error as Error & { statusCode?: unknown; status?: unknown };
+    if (typeof statusCode === 'number') return statusCode;
+    if (typeof status === 'number') return status;
+
+    const match = error.message.match(/\((\d{3})\)/) || error.message.match(/status(?: code)?:? (\d{3})/i);
+    return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Sanitize error into a safe error type category.
+ * SECURITY: Never exposes full error messages, only categorized types.
+ * 
+ * @param error - Anything thrown by a step
+ * @returns Categorized error type
+ */
+export function sanitizeErrorType(error: unknown): StepErrorType {
+    if (error instanceof UnresolvedReferenceError || error instanceof EnvAccessError) return 'validation';
+    if (error instanceof Error) {
+        const msg = error.message.toLowerCase();
+        const name = error.name.toLowerCase();
+        if (msg.includes('timeout') || name.includes('timeout')) return 'timeout';
+
+        const status = getStatusCode(error);
+        if (status === 429 || msg.includes('rate limit') || msg.includes('too many requests')) return 'rate_limited';
+        if (status !== undefined && status >= 500 && status <= 599) return 'server_error';
+        if (status === 401 || status === 403) return 'auth_failed';
+
+        if (msg.includes('auth') || msg.includes('unauthorized')) return 'auth_failed';
+        if (msg.includes('valid') || name.includes('validation')) return 'validation';
+        if (msg.includes('network') || msg.includes('econnrefused')) return 'network';
+    }
+    return 'unknown';
+}
+
+/**
+ * Error raised when a step or workflow exceeds its configured timeout.
+ * Used as the AbortSignal reason so cancelled work reports 'timeout'.
+ */
+export class TimeoutError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TimeoutError';
+    }
+}
+
+/**
+ * Thrown to pause a run until external input arrives (e.g., an `await-approval` step).
+ * 
+ * The executor saves a checkpoint with the pending payload and rethrows it with
+ * `runId` and `stepId` set; WorkflowExecutor.resume() continues the run with the
+ * supplied decision as the step's result.
+ */
+export class WorkflowSuspendedError extends Error {
+    /** Data shown to whoever provides the input (e.g., the draft to approve) */
+    payload: unknown;
+    /** ID of the suspended run (set by the executor) */
+    runId = '';
+    /** ID of the step waiting for input (set by the executor) */
+    stepId = '';
+
+    constructor(payload: unknown) {
+        super('[Beddel] Workflow suspended awaiting input');
+        this.name = 'WorkflowSuspendedError';
+        this.payload = payload;
+    }
+}
+
+/**
+ * A single problem found while validating an agent YAML file.
+ */
+export interface YamlValidationIssue {
+    /** Dotted path of the offending key or value (e.g., "workflow[2].config.promt") */
+    path: string;
+    /** One-based line number in the file */
+    line: number;
+    /** One-based column number in the file */
+    column: number;
+    message: string;
+}
+
+/**
+ * Error raised when an agent YAML document does not match the schema.
+ * The message lists every issue as `file:line:column path: message`.
+ */
+export class YamlValidationError extends Error {
+    filename: string;
+    issues: YamlValidationIssue[];
+
+    constructor(filename: string, issues: YamlValidationIssue[]) {
+        const details = issues
+            .map((issue) => `  ${filename}:${issue.line}:${issue.column} ${issue.path || '(root)'}: ${issue.message}`)
+            .join('\n');
+        super(`[Beddel] Invalid agent YAML (${filename}):\n${details}`);
+        this.name = 'YamlValidationError';
+        this.filename = filename;
+        this.issues = issues;
+    }
+}
+
+/**
+ * Error raised when a `${ ... }` expression cannot be parsed or evaluated
+ * (syntax error, unknown filter, filter applied to the wrong kind of value).
+ */
+export class ExpressionError extends Error {
+    /** Source of the expression, without the `${ }` delimiters */
+    expression: string;
+
+    constructor(expression: string, message: string) {
+        super(`[Beddel] Invalid expression "${expression}": ${message}`);
+        this.name = 'ExpressionError';
+        this.expression = expression;
+    }
+}
+
+/**
+ * Error raised in strict mode when a step config references a value that
+ * does not exist (a misspelled input field, a missing step result, ...).
+ * Classified as 'validation', so it is never retried by default.
+ */
+export class UnresolvedReferenceError extends Error {
+    /** ID of the step whose config holds the reference ('' for the return/catch templates) */
+    stepId: string;
+    /** Path of the value within the step (e.g., "config.messages[0].content"), or "return"/"catch" */
+    key: string;
+    /** The unresolved reference (e.g., "$input.nmae") */
+    reference: string;
+
+    constructor(stepId: string, key: string, reference: string) {
+        super(`[Beddel] Unresolved reference ${reference} in ${stepId ? `step "${stepId}" (${key})` : key}`);
+        this.name = 'UnresolvedReferenceError';
+        this.stepId = stepId;
+        this.key = key;
+        this.reference = reference;
+    }
+}
+
+/**
+ * Error raised when a template reads `$env.NAME` for a variable the agent
+ * does not declare in `metadata.env` and the host does not allowlist.
+ */
+export class EnvAccessError extends Error {
+    /** Name of the denied environment variable */
+    variable: string;
+
+    constructor(variable: string) {
+        super(`[Beddel] Access to $env.${variable} denied: declare it in metadata.env or add it to envAllowlist`);
+        this.name = 'EnvAccessError';
+        this.variable = variable;
+    }
+}
@@ -0,0 +1,795 @@
+/**
+ * Beddel Protocol - Expression Language
+ * 
+ * Small, safe expressions embedded in templates as `${ ... }`:
+ *   ${ $input.name | upper }
+ *   ${ $stepResult.reviews.data | length > 0 and not $input.skip }
+ *   ${ $input.message | default('n/a') }
+ * 
+ * Expressions are parsed into a tree and interpreted: there is no eval and
+ * no access to JS globals. Only `$` references, literals, operators and the
+ * filters below are available, and member access only reads own properties.
+ * 
+ * Server-only: Used by the variable resolver.
+ */
+
+import { ExpressionError } from './errors';
+import { safeJsonParse } from '../primitives/output';
+
+/**
+ * Parsed expression tree.
+ */
+type ExpressionNode =
+    | { type: 'literal'; value: unknown }
+    | { type: 'variable'; name: string }
+    | { type: 'member'; object: ExpressionNode; property: ExpressionNode | typeof WILDCARD }
+    | { type: 'list'; items: ExpressionNode[] }
+    | { type: 'unary'; operator: string; operand: ExpressionNode }
+    | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+    | { type: 'filter'; name: string; input: ExpressionNode; args: ExpressionNode[] };
+
+interface Token {
+    type: 'number' | 'string' | 'identifier' | 'variable' | 'operator' | 'end';
+    value: string | number;
+    position: number;
+}
+
+/**
+ * `[*]` in a path: projects the rest of the path over every item of an array.
+ */
+export const WILDCARD: unique symbol = Symbol('[*]');
+
+/**
+ * One key of a property path: a name, an index (negative counts from the end) or `[*]`.
+ */
+export type PathSegment = string | number | typeof WILDCARD;
+
+/**
+ * Resolves a `$name` reference with its property path (e.g., 'input', ['user', 'name']).
+ * Supplied by the variable resolver so lookups follow the same rules as `$input.*`.
+ */
+export type ReferenceResolver = (name: string, path: PathSegment[]) => unknown;
+
+/**
+ * A pure filter: receives the piped value and the filter's arguments.
+ */
+type Filter = (value: unknown, ...args: unknown[]) => unknown;
+
+/** Operators, longest first so `<=` is not read as `<` */
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '|', '(', ')', '[', ']', ',', '.', '-', '*'];
+
+/** Words with a fixed meaning; anything else is only valid as a filter or property name */
+const KEYWORD_OPERATORS: Record<string, string> = { and: '&&', or: '||', not: '!', in: 'in' };
+const KEYWORD_LITERALS: Record<string, unknown> = { true: true, false: false, null: null };
+
+/** Properties never readable from expressions, even when they are own properties */
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'constructor', 'prototype']);
+
+/**
+ * Values treated as false when a condition resolves to a string.
+ * Resolved values are often strings (interpolation, quoted YAML, JSON input),
+ * so "false" must be falsy.
+ */
+const FALSY_STRINGS = new Set(['', 'false', '0', 'null', 'no', 'off']);
+
+/**
+ * Determine the truthiness of a value (conditions, `and`, `or`, `not`):
+ * - undefined, null, false, 0, NaN and empty arrays are falsy
+ * - strings "", "false", "0", "null", "no" and "off" are falsy (case-insensitive)
+ * - everything else is truthy
+ */
+export function isTruthy(value: unknown): boolean {
+    if (value === null || value === undefined) {
+        return false;
+    }
+    if (typeof value === 'string') {
+        return !FALSY_STRINGS.has(value.trim().toLowerCase());
+    }
+    if (Array.isArray(value)) {
+        return value.length > 0;
+    }
+    return Boolean(value);
+}
+
+/**
+ * Read an own property of an object or array (undefined otherwise).
+ * Inherited members such as `constructor` or `toString` are never reachable.
+ */
+export function getProperty(value: unknown, key: string | number): unknown {
+    if (value === null || value === undefined || BLOCKED_PROPERTIES.has(String(key))) {
+        return undefined;
+    }
+    if (typeof value === 'string') {
+        return key === 'length' ? value.length : undefined;
+    }
+    if (typeof value !== 'object') {
+        return undefined;
+    }
+    return Object.prototype.hasOwnProperty.call(value, key)
+        ? (value as Record<string | number, unknown>)[key]
+        : undefined;
+}
+
+/**
+ * Follow a property path from a value. Negative indexes count from the end of
+ * an array; `[*]` maps the rest of the path over an array's items (dropping
+ * items where it is missing), so projections always return arrays.
+ * 
+ * @example
+ * getPath({ data: [{ rating: 5 }, { rating: 3 }] }, ['data', WILDCARD, 'rating']) // [5, 3]
+ */
+export function getPath(value: unknown, path: PathSegment[]): unknown {
+    let current = value;
+
+    for (let i = 0; i < path.length; i++) {
+        const key = path[i];
+
+        if (key === WILDCARD) {
+            if (!Array.isArray(current)) return undefined;
+            const rest = path.slice(i + 1);
+            return current
+                .map((item) => getPath(item, rest))
+                .filter((item) => item !== undefined);
+        }
+
+        if (typeof key === 'number' && key < 0 && Array.isArray(current)) {
+            current = getProperty(current, current.length + key);
+        } else {
+            current = getProperty(current, key);
+        }
+    }
+
+    return current;
+}
+
+/**
+ * Split expression source into tokens.
+ */
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let position = 0;
+
+    while (position < source.length) {
+        const char = source[position];
+
+        if (/\s/.test(char)) {
+            position++;
+            continue;
+        }
+
+        const start = position;
+
+        if (/[0-9]/.test(char)) {
+            const match = /^[0-9]+(\.[0-9]+)?/.exec(source.slice(position))!;
+            tokens.push({ type: 'number', value: Number(match[0]), position: start });
+            position += match[0].length;
+            continue;
+        }
+
+        if (char === '"' || char === "'") {
+            let value = '';
+            position++;
+            while (position < source.length && source[position] !== char) {
+                if (source[position] === '\\' && position + 1 < source.length) {
+                    const escaped = source[position + 1];
+                    value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+                    position += 2;
+                } else {
+                    value += source[position++];
+                }
+            }
+            if (position >= source.length) {
+                throw new Error(`Unterminated string at position ${start}`);
+            }
+            position++;
+            tokens.push({ type: 'string', value, position: start });
+            continue;
+        }
+
+        const word = /^\$?[a-zA-Z_][a-zA-Z0-9_]*/.exec(source.slice(position));
+        if (word) {
+            const isVariable = word[0].startsWith('$');
+            tokens.push({
+                type: isVariable ? 'variable' : 'identifier',
+                value: isVariable ? word[0].slice(1) : word[0],
+                position: start,
+            });
+            position += word[0].length;
+            continue;
+        }
+
+        const operator = OPERATORS.find((op) => source.startsWith(op, position));
+        if (!operator) {
+            throw new Error(`Unexpected character "${char}" at position ${start}`);
+        }
+        tokens.push({ type: 'operator', value: operator, position: start });
+        position += operator.length;
+    }
+
+    tokens.push({ type: 'end', value: '', position });
+    return tokens;
+}
+
+/**
+ * Recursive-descent parser. Precedence, loosest first:
+ * or, and, not, comparison (== != < <= > >= in), filter (|), unary minus,
+ * member access (`.name`, `[expr]`, `[*]`).
+ */
+class Parser {
+    private tokens: Token[];
+    private index = 0;
+
+    constructor(source: string) {
+        this.tokens = tokenize(source);
+    }
+
+    parse(): ExpressionNode {
+        const node = this.parseOr();
+        this.expect('end');
+        return node;
+    }
+
+    private peek(): Token {
+        return this.tokens[this.index];
+    }
+
+    private next(): Token {
+        return this.tokens[this.index++];
+    }
+
+    /**
+     * Consume an operator (symbol or keyword form) if it is next.
+     */
+    private match(operator: string): boolean {
+        const token = this.peek();
+        const matches = (token.type === 'operator' && token.value === operator)
+            || (token.type === 'identifier' && KEYWORD_OPERATORS[token.value as string] === operator);
+        if (matches) this.index++;
+        return matches;
+    }
+
+    private expect(type: Token['type'], value?: string): Token {
+        const token = this.next();
+        if (token.type !== type || (value !== undefined && token.value !== value)) {
+            const found = token.type === 'end' ? 'end of expression' : `"${token.value}"`;
+            throw new Error(`Expected ${value ? `"${value}"` : type} but found ${found} at position ${token.position}`);
+        }
+        return token;
+    }
+
+    private parseOr(): ExpressionNode {
+        let node = this.parseAnd();
+        while (this.match('||')) {
+            node = { type: 'binary', operator: '||', left: node, right: this.parseAnd() };
+        }
+        return node;
+    }
+
+    private parseAnd(): ExpressionNode {
+        let node = this.parseNot();
+        while (this.match('&&')) {
+            node = { type: 'binary', operator: '&&', left: node, right: this.parseNot() };
+        }
+        return node;
+    }
+
+    private parseNot(): ExpressionNode {
+        if (this.match('!')) {
+            return { type: 'unary', operator: '!', operand: this.parseNot() };
+        }
+        return this.parseComparison();
+    }
+
+    private parseComparison(): ExpressionNode {
+        const left = this.parseFilter();
+        for (const operator of ['==', '!=', '<=', '>=', '<', '>', 'in']) {
+            if (this.match(operator)) {
+                return { type: 'binary', operator, left, right: this.parseFilter() };
+            }
+        }
+        return left;
+    }
+
+    private parseFilter(): ExpressionNode {
+        let node = this.parseUnary();
+        while (this.match('|')) {
+            const token = this.expect('identifier');
+            const name = token.value as string;
+            if (!FILTERS.has(name)) {
+                throw new Error(`Unknown filter "${name}" at position ${token.position}`);
+            }
+
+            const args: ExpressionNode[] = [];
+            if (this.match('(')) {
+                if (!this.match(')')) {
+                    do {
+                        args.push(this.parseOr());
+                    } while (this.match(','));
+                    this.expect('operator', ')');
+                }
+            }
+            node = { type: 'filter', name, input: node, args };
+        }
+        return node;
+    }
+
+    private parseUnary(): ExpressionNode {
+        if (this.match('-')) {
+            return { type: 'unary', operator: '-', operand: this.parseUnary() };
+        }
+        return this.parseMember();
+    }
+
+    private parseMember(): ExpressionNode {
+        let node = this.parsePrimary();
+        for (;;) {
+            if (this.match('.')) {
+                const token = this.next();
+                if (token.type !== 'identifier' && token.type !== 'number') {
+                    throw new Error(`Expected a property name at position ${token.position}`);
+                }
+                node = { type: 'member', object: node, property: { type: 'literal', value: token.value } };
+            } else if (this.match('[')) {
+                if (this.match('*')) {
+                    this.expect('operator', ']');
+                    node = { type: 'member', object: node, property: WILDCARD };
+                    continue;
+                }
+                const property = this.parseOr();
+                this.expect('operator', ']');
+                node = { type: 'member', object: node, property };
+            } else {
+                return node;
+            }
+        }
+    }
+
+    private parsePrimary(): ExpressionNode {
+        const token = this.next();
+
+        switch (token.type) {
+            case 'number':
+            case 'string':
+                return { type: 'literal', value: token.value };
+            case 'variable':
+                return { type: 'variable', name: token.value as string };
+            case 'identifier':
+                if (Object.prototype.hasOwnProperty.call(KEYWORD_LITERALS, token.value)) {
+                    return { type: 'literal', value: KEYWORD_LITERALS[token.value as string] };
+                }
+                // Bare names would look like JS globals; only $ references are variables
+                throw new Error(`Unknown name "${token.value}" at position ${token.position} (variables start with $)`);
+            case 'operator':
+                if (token.value === '(') {
+                    const node = this.parseOr();
+                    this.expect('operator', ')');
+                    return node;
+                }
+                if (token.value === '[') {
+                    const items: ExpressionNode[] = [];
+                    if (!this.match(']')) {
+                        do {
+                            items.push(this.parseOr());
+                        } while (this.match(','));
+                        this.expect('operator', ']');
+                    }
+                    return { type: 'list', items };
+                }
+                break;
+        }
+
+        const found = token.type === 'end' ? 'end of expression' : `"${token.value}"`;
+        throw new Error(`Unexpected ${found} at position ${token.position}`);
+    }
+}
+
+/** Parsed expressions by source; templates are few and reused on every run */
+const parseCache = new Map<string, ExpressionNode>();
+const MAX_CACHED_EXPRESSIONS = 1000;
+
+function parse(source: string): ExpressionNode {
+    let node = parseCache.get(source);
+    if (!node) {
+        node = new Parser(source).parse();
+        if (parseCache.size >= MAX_CACHED_EXPRESSIONS) {
+            parseCache.clear();
+        }
+        parseCache.set(source, node);
+    }
+    return node;
+}
+
+/**
+ * Convert a value to text for string filters and interpolation.
+ * null/undefined become '', objects and arrays become JSON.
+ */
+export function toText(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'string') return value;
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+}
+
+function expectList(filter: string, value: unknown): unknown[] {
+    if (!Array.isArray(value)) {
+        throw new Error(`Filter "${filter}" expects a list, got ${value === null ? 'null' : typeof value}`);
+    }
+    return value;
+}
+
+function toNumberOrNull(value: unknown): number | null {
+    if (typeof value === 'number') return Number.isNaN(value) ? null : value;
+    if (typeof value === 'string' && value.trim() !== '') {
+        const number = Number(value);
+        return Number.isNaN(number) ? null : number;
+    }
+    return null;
+}
+
+/**
+ * Format a date in UTC. Tokens: YYYY, MM, DD, HH, mm, ss; 'iso' gives an ISO 8601 string.
+ */
+function formatDate(value: unknown, format: unknown = 'iso'): string {
+    const date = value instanceof Date ? value : new Date(value as string | number);
+    if (Number.isNaN(date.getTime())) {
+        throw new Error(`Filter "date" could not parse "${toText(value)}" as a date`);
+    }
+    if (format === 'iso') {
+        return date.toISOString();
+    }
+
+    const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+    const parts: Record<string, string> = {
+        YYYY: pad(date.getUTCFullYear(), 4),
+        MM: pad(date.getUTCMonth() + 1),
+        DD: pad(date.getUTCDate()),
+        HH: pad(date.getUTCHours()),
+        mm: pad(date.getUTCMinutes()),
+        ss: pad(date.getUTCSeconds()),
+    };
+    return toText(format).replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => parts[token]);
+}
+
+/**
+ * Built-in filters. All are pure: they only transform their input.
+ */
+const FILTERS = new Map<string, Filter>([
+    // Text
+    ['upper', (value) => toText(value).toUpperCase()],
+    ['lower', (value) => toText(value).toLowerCase()],
+    ['trim', (value) => toText(value).trim()],
+    ['capitalize', (value) => {
+        const text = toText(value);
+        return text.charAt(0).toUpperCase() + text.slice(1);
+    }],
+    ['replace', (value, search, replacement = '') => toText(value).split(toText(search)).join(toText(replacement))],
+    ['split', (value, separator = ',') => toText(value).split(toText(separator))],
+    ['truncate', (value, length = 100, suffix = '...') => {
+        const text = toText(value);
+        const max = toNumberOrNull(length) ?? 100;
+        return text.length > max ? text.slice(0, max) + toText(suffix) : text;
+    }],
+    ['string', (value) => toText(value)],
+
+    // Values
+    ['default', (value, fallback = '') => (value === undefined || value === null || value === '' ? fallback : value)],
+    ['length', (value) => {
+        if (typeof value === 'string' || Array.isArray(value)) return value.length;
+        if (typeof value === 'object' && value !== null) return Object.keys(value).length;
+        return 0;
+    }],
+    ['number', (value) => toNumberOrNull(value)],
+    ['round', (value, digits = 0) => {
+        const number = toNumberOrNull(value);
+        const factor = 10 ** (toNumberOrNull(digits) ?? 0);
+        return number === null ? null : Math.round(number * factor) / factor;
+    }],
+    ['json', (value, indent) => JSON.stringify(value ?? null, null, toNumberOrNull(indent) ?? undefined)],
+    ['parseJson', (value) => {
+        if (typeof value !== 'string') return value;
+        const result = safeJsonParse(value);
+        if (!result.success) {
+            throw new Error(`Filter "parseJson" could not parse the value: ${result.error}`);
+        }
+        return result.data;
+    }],
+    ['date', (value, format) => formatDate(value, format)],
+
+    // Lists and objects
+    ['join', (value, separator = ',') => expectList('join', value).map(toText).join(toText(separator))],
+    ['slice', (value, start = 0, end) => {
+        const from = toNumberOrNull(start) ?? 0;
+        const to = toNumberOrNull(end) ?? undefined;
+        return typeof value === 'string' ? value.slice(from, to) : expectList('slice', value).slice(from, to);
+    }],
+    ['first', (value) => (typeof value === 'string' ? value.charAt(0) : expectList('first', value)[0])],
+    ['last', (value) => {
+        if (typeof value === 'string') return value.charAt(value.length - 1);
+        const list = expectList('last', value);
+        return list[list.length - 1];
+    }],
+    ['reverse', (value) => (typeof value === 'string' ? [...value].reverse().join('') : [...expectList('reverse', value)].reverse())],
+    ['sort', (value) => [...expectList('sort', value)].sort((a, b) => compare(a, b))],
+    ['map', (value, path) => expectList('map', value).map((item) =>
+        toText(path).split('.').reduce<unknown>((current, key) => getProperty(current, key), item)
+    )],
+    ['keys', (value) => (typeof value === 'object' && value !== null ? Object.keys(value) : [])],
+    ['values', (value) => (typeof value === 'object' && value !== null ? Object.values(value) : [])],
+]);
+
+/**
+ * Order two values: numerically when both look like numbers, otherwise as text.
+ */
+function compare(left: unknown, right: unknown): number {
+    const a = toNumberOrNull(left);
+    const b = toNumberOrNull(right);
+    if (a !== null && b !== null) return a - b;
+    return toText(left).localeCompare(toText(right));
+}
+
+/**
+ * Equality that treats numbers and numeric strings alike (`"3" == 3`),
+ * since values from YAML, JSON input and LLM output are often strings.
+ */
+function equals(left: unknown, right: unknown): boolean {
+    if (left === right) return true;
+    if (left === null || left === undefined || right === null || right === undefined) {
+        return (left ?? null) === (right ?? null);
+    }
+    if (typeof left === 'number' || typeof right === 'number') {
+        const a = toNumberOrNull(left);
+        const b = toNumberOrNull(right);
+        return a !== null && a === b;
+    }
+    if (typeof left === 'object' || typeof right === 'object') {
+        return JSON.stringify(left) === JSON.stringify(right);
+    }
+    return String(left) === String(right);
+}
+
+function contains(container: unknown, item: unknown): boolean {
+    if (Array.isArray(container)) return container.some((element) => equals(element, item));
+    if (typeof container === 'string') return container.includes(toText(item));
+    if (typeof container === 'object' && container !== null) {
+        return Object.prototype.hasOwnProperty.call(container, toText(item));
+    }
+    return false;
+}
+
+/**
+ * Split a member chain like `$name.a[0].b` into its base node and path.
+ */
+function getMemberPath(node: ExpressionNode, resolve: ReferenceResolver): { base: ExpressionNode; path: PathSegment[] } {
+    if (node.type !== 'member') {
+        return { base: node, path: [] };
+    }
+    const chain = getMemberPath(node.object, resolve);
+    if (node.property === WILDCARD) {
+        chain.path.push(WILDCARD);
+    } else {
+        const key = evaluate(node.property, resolve);
+        chain.path.push(typeof key === 'number' ? key : toText(key));
+    }
+    return chain;
+}
+
+function evaluate(node: ExpressionNode, resolve: ReferenceResolver): unknown {
+    switch (node.type) {
+        case 'literal':
+            return node.value;
+        case 'list':
+            return node.items.map((item) => evaluate(item, resolve));
+        case 'variable':
+        case 'member': {
+            // References go to the resolver as a whole so $env/$stepResult keep their rules
+            const { base, path } = getMemberPath(node, resolve);
+            if (base.type === 'variable') {
+                return resolve(base.name, path);
+            }
+            return getPath(evaluate(base, resolve), path);
+        }
+        case 'unary': {
+            const operand = evaluate(node.operand, resolve);
+            if (node.operator === '!') return !isTruthy(operand);
+            const number = toNumberOrNull(operand);
+            return number === null ? null : -number;
+        }
+        case 'binary': {
+            const left = evaluate(node.left, resolve);
+            // and/or short-circuit and return the deciding operand
+            if (node.operator === '&&') return isTruthy(left) ? evaluate(node.right, resolve) : left;
+            if (node.operator === '||') return isTruthy(left) ? left : evaluate(node.right, resolve);
+
+            const right = evaluate(node.right, resolve);
+            switch (node.operator) {
+                case '==': return equals(left, right);
+                case '!=': return !equals(left, right);
+                case 'in': return contains(right, left);
+            }
+            if (left === null || left === undefined || right === null || right === undefined) {
+                return false;
+            }
+            const order = compare(left, right);
+            switch (node.operator) {
+                case '<': return order < 0;
+                case '<=': return order <= 0;
+                case '>': return order > 0;
+                default: return order >= 0;
+            }
+        }
+        case 'filter': {
+            const input = evaluate(node.input, resolve);
+            const args = node.args.map((arg) => evaluate(arg, resolve));
+            return FILTERS.get(node.name)!(input, ...args);
+        }
+    }
+}
+
+/**
+ * Parse and evaluate an expression (the text between `${` and `}`).
+ * 
+ * @param source - Expression source, e.g. "$input.name | upper"
+ * @param resolve - Looks up `$` references
+ * @returns The expression's value (any type)
+ * @throws ExpressionError on syntax errors, unknown filters or filter misuse
+ */
+export function evaluateExpression(source: string, resolve: ReferenceResolver): unknown {
+    try {
+        return evaluate(parse(source.trim()), resolve);
+    } catch (error) {
+        if (error instanceof ExpressionError) throw error;
+        throw new ExpressionError(source.trim(), error instanceof Error ? error.message : String(error));
+    }
+}
+
+/**
+ * A `$name` reference used in an expression. The path only holds the keys
+ * known without evaluating anything: it stops at the first computed key.
+ */
+export interface ExpressionReference {
+    name: string;
+    path: PathSegment[];
+    /**
+     * Whether the expression provides a fallback for a missing value: the
+     * reference is piped into `default` or is the left side of `or`
+     */
+    optional: boolean;
+}
+
+/**
+ * List the `$` references of an expression without evaluating it.
+ * Used to report unresolved references and to lint templates before a run.
+ * 
+ * @param source - Expression source, e.g. "$stepResult.draft.text | trim"
+ * @returns References in order of appearance
+ * @throws ExpressionError on syntax errors or unknown filters
+ */
+export function findExpressionReferences(source: string): ExpressionReference[] {
+    let root: ExpressionNode;
+    try {
+        root = parse(source.trim());
+    } catch (error) {
+        throw new ExpressionError(source.trim(), error instanceof Error ? error.message : String(error));
+    }
+
+    const references: ExpressionReference[] = [];
+    const visit = (node: ExpressionNode, optional: boolean): void => {
+        switch (node.type) {
+            case 'literal':
+                return;
+            case 'list':
+                return node.items.forEach((item) => visit(item, optional));
+            case 'unary':
+                return visit(node.operand, optional);
+            case 'binary':
+                visit(node.left, optional || node.operator === '||');
+                return visit(node.right, optional);
+            case 'filter':
+                visit(node.input, optional || node.name === 'default');
+                return node.args.forEach((arg) => visit(arg, optional));
+            case 'variable':
+            case 'member': {
+                // Unwind the member chain: $name.a[$i].b has properties a, $i, b
+                const properties: (ExpressionNode | typeof WILDCARD)[] = [];
+                let base: ExpressionNode = node;
+                while (base.type === 'member') {
+                    properties.unshift(base.property);
+                    base = base.object;
+                }
+
+                const path: PathSegment[] = [];
+                let known = true;
+                for (const property of properties) {
+                    if (property === WILDCARD) {
+                        if (known) path.push(WILDCARD);
+                        continue;
+                    }
+                    if (known && property.type === 'literal') {
+                        path.push(typeof property.value === 'number' ? property.value : toText(property.value));
+                        continue;
+                    }
+                    known = false;
+                    visit(property, optional);
+                }
+
+                if (base.type === 'variable') {
+                    references.push({ name: base.name, path, optional });
+                } else {
+                    visit(base, optional);
+                }
+            }
+        }
+    };
+
+    visit(root, false);
+    return references;
+}
+
+/**
+ * A `${ ... }` expression found in a template.
+ */
+export interface TemplateExpression {
+    /** Offset of `${` */
+    start: number;
+    /** Offset just past the closing `}` */
+    end: number;
+    /** Text between the delimiters */
+    source: string;
+}
+
+/**
+ * Find the `${ ... }` expressions in a template string.
+ * A `}` inside a quoted string does not close the expression, and an
+ * escaped `$${` is literal text, not an expression.
+ * 
+ * Text that does not parse as an expression (`Hello ${name}` in a code
+ * sample, an unclosed `${`) is not an expression either: it stays literal
+ * text, as in templates written before expressions existed.
+ * 
+ * @param invalid - Receives an ExpressionError for each `${` left as text (for linting)
+ */
+export function findTemplateExpressions(template: string, invalid?: ExpressionError[]): TemplateExpression[] {
+    const expressions: TemplateExpression[] = [];
+    let index = template.indexOf('${');
+
+    while (index !== -1) {
+        if (template[index - 1] === '$') {
+            index = template.indexOf('${', index + 2);
+            continue;
+        }
+
+        let position = index + 2;
+        let quote: string | null = null;
+
+        while (position < template.length) {
+            const char = template[position];
+            if (quote) {
+                if (char === '\\') position++;
+                else if (char === quote) quote = null;
+            } else if (char === '"' || char === "'") {
+                quote = char;
+            } else if (char === '}') {
+                break;
+            }
+            position++;
+        }
+
+        if (position >= template.length) {
+            invalid?.push(new ExpressionError(template.slice(index + 2).trim(), 'Missing closing "}"'));
+            index = template.indexOf('${', index + 2);
+            continue;
+        }
+
+        const source = template.slice(index + 2, position);
+        try {
+            parse(source.trim());
+            expressions.push({ start: index, end: position + 1, source });
+            index = template.indexOf('${', position + 1);
+        } catch (error) {
+            invalid?.push(new ExpressionError(source.trim(), error instanceof Error ? error.message : String(error)));
+            index = template.indexOf('${', index + 2);
+        }
+    }
+
+    return expressions;
+}
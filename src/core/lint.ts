@@ -0,0 +1,185 @@
+/**
+ * Beddel Protocol - Agent Linter
+ * 
+ * Static checks on a parsed agent, run before execution:
+ * - `$stepResult.name` and legacy `$name` references must name a result
+ *   stored by an earlier step (or `$item`/`$index`/`$json`/`$error` where
+ *   the executor provides them)
+ * - `${ ... }` holding a `$` reference must parse and use known filters
+ *   (other `${` text is literal, e.g. a code sample in a prompt)
+ * - `metadata` keys close to a known key are probably typos (other keys are
+ *   kept for tooling)
+ * 
+ * `$input` and `$env` depend on the request and the environment, so they
+ * are only checked at runtime, by strict mode.
+ * 
+ * Server-only: Used by WorkflowExecutor in strict mode and by tooling.
+ */
+
+import type { ParsedYaml, WorkflowStep } from '../types';
+import type { ExpressionError } from './errors';
+import { metadataKeys, suggest } from './schema';
+import { appendKey, BUILTIN_VARIABLES, findReferences } from './variable-resolver';
+import type { TemplateReference } from './variable-resolver';
+
+/**
+ * A problem found by lintAgent().
+ */
+export interface LintIssue {
+    /** ID of the step holding the value ('' for metadata and the return/catch templates) */
+    stepId: string;
+    /** Path of the value within the step (e.g., "config.messages[0].content"), or "metadata.*"/"return"/"catch" */
+    key: string;
+    /** The offending reference, for unknown results (e.g., "$stepResult.drafr.text") */
+    reference?: string;
+    message: string;
+}
+
+/**
+ * Check one reference against the names available at that point.
+ * Returns an error message, or null if the reference is fine.
+ */
+function checkReference({ name, path }: TemplateReference, scope: Set<string>): string | null {
+    if (name === 'input' || name === 'env' || BUILTIN_VARIABLES.includes(name)) {
+        return null;
+    }
+    if (name === 'stepResult') {
+        const [result] = path;
+        if (typeof result !== 'string') {
+            return '$stepResult must be followed by a result name';
+        }
+        return scope.has(result) ? null : `No earlier step stores a result named "${result}"`;
+    }
+    return scope.has(name) ? null : `Unknown variable "$${name}": no earlier step stores a result named "${name}"`;
+}
+
+/**
+ * Flag metadata keys Beddel does not read that look like a misspelled known key.
+ */
+function lintMetadata(metadata: object, issues: LintIssue[]): void {
+    for (const key of Object.keys(metadata)) {
+        if (metadataKeys.includes(key)) continue;
+        const suggestion = suggest(key, metadataKeys);
+        if (suggestion) {
+            issues.push({
+                stepId: '',
+                key: appendKey('metadata', key),
+                message: `Unknown metadata key "${key}". Did you mean "${suggestion}"?`,
+            });
+        }
+    }
+}
+
+/**
+ * Lint every string in a template value against the current scope.
+ */
+function lintValue(value: unknown, stepId: string, key: string, scope: Set<string>, issues: LintIssue[]): void {
+    if (typeof value === 'string') {
+        if (!value.includes('$')) return;
+
+        const invalid: ExpressionError[] = [];
+        const references = findReferences(value, invalid);
+
+        // `${` text that does not parse is kept as text; with a `$` reference
+        // inside it was probably meant as an expression
+        for (const error of invalid) {
+            if (error.expression.includes('$')) {
+                issues.push({ stepId, key, message: `${error.message} (left as text)` });
+            }
+        }
+
+        for (const reference of references) {
+            const message = checkReference(reference, scope);
+            if (message) {
+                issues.push({ stepId, key, reference: reference.reference, message });
+            }
+        }
+    } else if (Array.isArray(value)) {
+        value.forEach((item, index) => lintValue(item, stepId, appendKey(key, index), scope, issues));
+    } else if (typeof value === 'object' && value !== null) {
+        for (const [name, item] of Object.entries(value)) {
+            lintValue(item, stepId, appendKey(key, name), scope, issues);
+        }
+    }
+}
+
+/**
+ * Lint a step list. `scope` holds the names available before the first
+ * step and gains each step's result, mirroring how the executor fills
+ * context.variables.
+ */
+function lintSteps(steps: unknown, scope: Set<string>, issues: LintIssue[]): void {
+    if (!Array.isArray(steps)) return;
+
+    for (const step of steps as WorkflowStep[]) {
+        const config = (step.config ?? {}) as Record<string, unknown>;
+
+        lintValue(step.if, step.id, 'if', scope, issues);
+        lintValue(step.unless, step.id, 'unless', scope, issues);
+
+        // Steps with a `json` key (switch, output-generator) set $json before resolving the rest
+        const configScope = config.json !== undefined ? new Set([...scope, 'json']) : scope;
+        lintValue(config.json, step.id, 'config.json', scope, issues);
+
+        if (step.type === 'foreach') {
+            lintValue(config.items, step.id, 'config.items', scope, issues);
+            // Iteration results stay inside the iteration
+            lintSteps(config.steps, new Set([...scope, 'item', 'index']), issues);
+        } else if (step.type === 'parallel') {
+            // Children run concurrently: none sees a sibling's result
+            const added = new Set<string>();
+            for (const child of Array.isArray(config.steps) ? config.steps : []) {
+                const childScope = new Set(configScope);
+                lintSteps([child], childScope, issues);
+                childScope.forEach((name) => added.add(name));
+            }
+            added.forEach((name) => configScope.add(name));
+        } else if (step.type === 'switch') {
+            lintValue(config.value, step.id, 'config.value', configScope, issues);
+            // Branches share the parent's variables; any of them may have run
+            const branches = Object.values((config.cases ?? {}) as Record<string, unknown>);
+            const added = new Set<string>();
+            for (const branch of [...branches, config.default]) {
+                const branchScope = new Set(configScope);
+                lintSteps(branch, branchScope, issues);
+                branchScope.forEach((name) => added.add(name));
+            }
+            added.forEach((name) => configScope.add(name));
+        } else {
+            const { json, ...rest } = config;
+            lintValue(rest, step.id, 'config', configScope, issues);
+        }
+
+        // Fallback results stay in the fallback; only the step's result is stored
+        lintSteps(step.onError, new Set([...configScope, 'error']), issues);
+
+        configScope.forEach((name) => scope.add(name));
+        if (step.result) {
+            scope.add(step.result);
+        }
+    }
+}
+
+/**
+ * Statically check an agent's references and expressions before running it.
+ * 
+ * @param yaml - Parsed agent (from parseYaml / loadYaml)
+ * @returns Issues in workflow order; empty when the agent is clean
+ * 
+ * @example
+ * const issues = lintAgent(await loadYaml('src/agents/support/triage.yaml'));
+ * for (const issue of issues) {
+ *   console.error(`${issue.stepId || '(template)'} ${issue.key}: ${issue.message}`);
+ * }
+ */
+export function lintAgent(yaml: ParsedYaml): LintIssue[] {
+    const issues: LintIssue[] = [];
+    const scope = new Set<string>();
+
+    lintMetadata(yaml.metadata, issues);
+    lintSteps(yaml.workflow, scope, issues);
+    lintValue(yaml.return, '', 'return', scope, issues);
+    lintValue(yaml.catch, '', 'catch', new Set([...scope, 'error']), issues);
+
+    return issues;
+}
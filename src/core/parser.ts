@@ -1,36 +1,546 @@
 /**
  * Beddel Protocol - Secure YAML Parser
- * Uses FAILSAFE_SCHEMA to prevent code execution attacks
+ * Uses FAILSAFE_SCHEMA and CORE_SCHEMA to prevent code execution attacks
+ * 
+ * Parsed documents are validated against the agent schema (./schema);
+ * errors point to the file, line and column of the offending key or value.
+ * 
+ * loadYaml() also composes agents: `extends` another agent and `include`
+ * shared files (see ./composition).
  */
 
-import { readFile } from 'fs/promises';
-import yaml, { FAILSAFE_SCHEMA } from 'js-yaml';
+import { readFile, access } from 'fs/promises';
+import { dirname, extname, isAbsolute, join, normalize, resolve, sep } from 'path';
+import yaml, { FAILSAFE_SCHEMA, CORE_SCHEMA } from 'js-yaml';
+import type { z } from 'zod';
 import type { ParsedYaml } from '../types';
+import { parsedYamlSchema, linkRawDocument } from './schema';
+import type { UnknownKeyParams } from './schema';
+import { YamlValidationError } from './errors';
+import type { YamlValidationIssue } from './errors';
+import { getIncludePath, extendAgent } from './composition';
+import { getBuiltinAgentPath, getBuiltinAgentsPath, isValidAgentId } from '../agents';
+
+/**
+ * Options for parseYaml().
+ */
+export interface ParseYamlOptions {
+    /** File name used in error messages (default: '<inline>') */
+    filename?: string;
+}
+
+/**
+ * Options for loadYaml().
+ */
+export interface LoadYamlOptions {
+    /**
+     * Directory `extends` agent IDs and `include` paths resolve against,
+     * and which includes may not leave (default: the file's directory)
+     */
+    agentsDir?: string;
+    /**
+     * Receives the path of every file the agent depends on: the agent, its
+     * `extends` bases and includes, and user agent paths `extends` looked
+     * for without finding (e.g., to invalidate a cache when any of them changes)
+     */
+    files?: string[];
+}
+
+/**
+ * Source position of a YAML node, recorded while parsing.
+ * Mapping children alternate key, value; sequence children are the items.
+ */
+interface YamlNode {
+    start: number;
+    kind?: string;
+    value?: unknown;
+    children: YamlNode[];
+}
+
+/**
+ * Fields of js-yaml's parser state read by the listener.
+ */
+interface ListenerState {
+    position: number;
+    kind: string | null;
+    result: unknown;
+}
+
+/**
+ * Build a tree of node positions from js-yaml's open/close listener events.
+ */
+function createNodeTracker(): { root: YamlNode; listener: (event: 'open' | 'close', state: ListenerState) => void } {
+    const root: YamlNode = { start: 0, children: [] };
+    const stack: YamlNode[] = [root];
+
+    const listener = (event: 'open' | 'close', state: ListenerState): void => {
+        if (event === 'open') {
+            const node: YamlNode = { start: state.position, children: [] };
+            stack[stack.length - 1].children.push(node);
+            stack.push(node);
+        } else {
+            const node = stack.pop()!;
+            node.kind = state.kind ?? undefined;
+            node.value = state.result;
+        }
+    };
+
+    return { root, listener };
+}
+
+/**
+ * Find the node for a validation path. Falls back to the deepest node found
+ * when the path does not exist (e.g., a missing required key).
+ * 
+ * @param atKey - Return the key node instead of the value for the last segment
+ */
+function findNode(root: YamlNode, path: PropertyKey[], atKey: boolean): YamlNode {
+    let node = root.children[0] ?? root;
+
+    for (let i = 0; i < path.length; i++) {
+        const segment = path[i];
+        let next: YamlNode | undefined;
+
+        if (node.kind === 'mapping') {
+            for (let j = 0; j + 1 < node.children.length; j += 2) {
+                if (node.children[j].value === String(segment)) {
+                    next = atKey && i === path.length - 1 ? node.children[j] : node.children[j + 1];
+                    break;
+                }
+            }
+        } else if (node.kind === 'sequence') {
+            next = node.children[Number(segment)];
+        }
+
+        if (!next) break;
+        node = next;
+    }
+
+    return node;
+}
+
+/**
+ * Convert a source offset to a one-based line and column.
+ * Node positions can precede the node, so whitespace and comments are skipped first.
+ */
+function toLineColumn(content: string, position: number): { line: number; column: number } {
+    let offset = position;
+    while (offset < content.length) {
+        const char = content[offset];
+        if (char === ' ' || char === '\t' || char === '\n' || char === '\r') {
+            offset++;
+        } else if (char === '#') {
+            while (offset < content.length && content[offset] !== '\n') offset++;
+        } else {
+            break;
+        }
+    }
+
+    const before = content.slice(0, offset);
+    const line = before.split('\n').length;
+    const column = offset - before.lastIndexOf('\n');
+    return { line, column };
+}
+
+/**
+ * Format a validation path like "workflow[2].config.promt".
+ */
+function formatPath(path: PropertyKey[]): string {
+    return path.reduce<string>((result, segment) => {
+        if (typeof segment === 'number') return `${result}[${segment}]`;
+        return result ? `${result}.${String(segment)}` : String(segment);
+    }, '');
+}
+
+/**
+ * Get the value at a validation path (undefined if missing).
+ */
+function getValue(document: unknown, path: PropertyKey[]): unknown {
+    let current = document;
+    for (const segment of path) {
+        if (typeof current !== 'object' || current === null) return undefined;
+        current = (current as Record<PropertyKey, unknown>)[segment];
+    }
+    return current;
+}
+
+/**
+ * Map a path in a composed document back to the file being loaded.
+ * Steps are matched by `id`, since `extends` and `include` change their
+ * positions; the path stops at anything that came from another file.
+ */
+function toSourcePath(path: PropertyKey[], document: unknown, source: unknown): PropertyKey[] {
+    const sourcePath: PropertyKey[] = [];
+    let current = document;
+    let original = source;
+
+    for (const segment of path) {
+        if (typeof current !== 'object' || current === null) break;
+        const next = (current as Record<PropertyKey, unknown>)[segment];
+
+        if (Array.isArray(current)) {
+            const id = typeof next === 'object' && next !== null ? (next as Record<string, unknown>).id : undefined;
+            let index = -1;
+            if (Array.isArray(original) && id !== undefined) {
+                index = original.findIndex((item) => typeof item === 'object' && item !== null && String(item.id) === String(id));
+            } else if (Array.isArray(original) && original.length === current.length) {
+                // Lists without ids (e.g. messages) keep their positions unless something was spliced in
+                index = Number(segment);
+            }
+            if (index < 0) break;
+            sourcePath.push(index);
+            original = (original as unknown[])[index];
+        } else {
+            sourcePath.push(segment);
+            original = typeof original === 'object' && original !== null
+                ? (original as Record<PropertyKey, unknown>)[segment]
+                : undefined;
+        }
+        current = next;
+    }
+
+    return sourcePath;
+}
+
+/**
+ * Raw and typed parses of one YAML file, with node positions for errors.
+ */
+interface LoadedDocument {
+    filename: string;
+    content: string;
+    raw: unknown;
+    typed: unknown;
+    root: YamlNode;
+}
+
+/**
+ * Parse YAML source with the safe schemas, without validating it.
+ */
+function loadDocument(content: string, filename: string): LoadedDocument {
+    const tracker = createNodeTracker();
+
+    // FAILSAFE_SCHEMA is the most restrictive schema in js-yaml
+    // No custom constructors, no type coercion: gives the raw text and positions
+    const raw = yaml.load(content, {
+        schema: FAILSAFE_SCHEMA,
+        filename,
+        listener: tracker.listener,
+    });
+
+    // CORE_SCHEMA only adds null/boolean/number resolution for plain scalars
+    const typed = yaml.load(content, { schema: CORE_SCHEMA, filename });
+
+    return { filename, content, raw, typed, root: tracker.root };
+}
+
+/**
+ * Turn Zod issues into located, readable validation issues.
+ * 
+ * @param composed - The document was changed by `extends` or `include`,
+ *                   so paths are mapped back to the source file
+ */
+function toValidationIssues(
+    issues: z.core.$ZodIssue[],
+    document: unknown,
+    source: LoadedDocument,
+    composed: boolean
+): YamlValidationIssue[] {
+    return issues.map((issue) => {
+        const path = issue.path;
+        const unknownKey = issue.code === 'custom' && (issue.params as UnknownKeyParams | undefined)?.unknownKey === true;
+        const missing = !unknownKey && path.length > 0 && getValue(document, path) === undefined;
+
+        let message = issue.message;
+        if (missing) {
+            message = `Missing required key "${String(path[path.length - 1])}"`;
+        }
+
+        // Missing keys are reported at their parent mapping
+        const target = missing ? path.slice(0, -1) : path;
+        const sourcePath = composed ? toSourcePath(target, document, source.typed) : target;
+        const node = findNode(source.root, sourcePath, unknownKey && sourcePath.length === target.length);
+        return { path: formatPath(path), ...toLineColumn(source.content, node.start), message };
+    });
+}
 
 /**
- * Load and parse a YAML workflow file securely.
+ * Validate a parsed (and possibly composed) document against the agent schema.
+ */
+function validateDocument(
+    typed: unknown,
+    raw: unknown,
+    source: LoadedDocument,
+    composed: boolean
+): ParsedYaml {
+    linkRawDocument(typed, raw);
+
+    const result = parsedYamlSchema.safeParse(typed);
+    if (!result.success) {
+        throw new YamlValidationError(
+            source.filename,
+            toValidationIssues(result.error.issues, typed, source, composed)
+        );
+    }
+
+    return result.data as ParsedYaml;
+}
+
+/**
+ * Parse and validate an agent YAML document securely.
  * 
- * Security: Uses FAILSAFE_SCHEMA which only allows:
- * - Strings
+ * Security: Uses FAILSAFE_SCHEMA and CORE_SCHEMA, which only allow:
+ * - Strings, numbers, booleans and null
  * - Arrays (sequences)
  * - Plain objects (mappings)
  * 
+ * Plain scalars are typed (`timeout: 5000` is a number, `enabled: true` a
+ * boolean); quoted scalars and fields the schema expects to be strings keep
+ * their text.
+ * 
  * This completely blocks dangerous YAML tags:
  * - !!js/function (arbitrary code execution)
  * - !!js/regexp (ReDoS vulnerabilities)
  * - !!js/undefined
  * - Custom tags
  * 
- * @param path - Absolute or relative path to YAML file
+ * `extends` and `include` need files to resolve against, so they are only
+ * supported by loadYaml().
+ * 
+ * @param content - YAML source text
+ * @param options - Optional file name for error messages
  * @returns Parsed YAML as typed ParsedYaml object
- * @throws Error if file cannot be read or YAML is invalid
+ * @throws YAMLException if the YAML syntax is invalid
+ * @throws YamlValidationError if the document does not match the agent schema
  */
-export async function loadYaml(path: string): Promise<ParsedYaml> {
-    const content = await readFile(path, 'utf-8');
+export function parseYaml(content: string, options: ParseYamlOptions = {}): ParsedYaml {
+    const source = loadDocument(content, options.filename || '<inline>');
+    return validateDocument(source.typed, source.raw, source, false);
+}
 
-    // FAILSAFE_SCHEMA is the most restrictive schema in js-yaml
-    // No custom constructors, no type coercion, maximum security
-    const parsed = yaml.load(content, { schema: FAILSAFE_SCHEMA }) as ParsedYaml;
+/**
+ * Files being loaded for the current agent, outermost first.
+ * Used to detect `extends`/`include` cycles.
+ */
+interface CompositionContext {
+    agentsDir: string;
+    chain: string[];
+    /** Every file read or looked for (see LoadYamlOptions.files) */
+    files?: string[];
+}
+
+/**
+ * Check whether a file exists at the given path
+ */
+async function fileExists(path: string): Promise<boolean> {
+    try {
+        await access(path);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Add a file to the load chain, failing if it is already being loaded.
+ */
+function enterFile(path: string, chain: string[]): string[] {
+    if (chain.includes(path)) {
+        throw new Error(`[Beddel] Circular extends/include: ${[...chain, path].join(' -> ')}`);
+    }
+    return [...chain, path];
+}
+
+/**
+ * Resolve an include path relative to the agents directory.
+ * Security: absolute paths and paths that leave the directory are rejected.
+ */
+function resolveIncludePath(includePath: string, agentsDir: string): string {
+    const basePath = resolve(agentsDir);
+    const fullPath = normalize(join(basePath, includePath));
+
+    if (isAbsolute(includePath) || !fullPath.startsWith(basePath + sep)) {
+        throw new Error(`[Beddel] Include path must be inside the agents directory: "${includePath}"`);
+    }
+    return fullPath;
+}
+
+/**
+ * Load the content of an include directive.
+ * YAML files are parsed (and may include further files); other files,
+ * such as Markdown prompts, are included as text.
+ * 
+ * @returns The included [typed, raw] values
+ */
+async function loadInclude(includePath: string, context: CompositionContext): Promise<[unknown, unknown]> {
+    const path = resolveIncludePath(includePath, context.agentsDir);
+    const chain = enterFile(path, context.chain);
+    context.files?.push(path);
+
+    let content: string;
+    try {
+        content = await readFile(path, 'utf-8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            throw new Error(`[Beddel] Included file not found: "${includePath}"`);
+        }
+        throw error;
+    }
+
+    const extension = extname(path).toLowerCase();
+    if (extension !== '.yaml' && extension !== '.yml') {
+        return [content, content];
+    }
 
-    return parsed;
+    const included = loadDocument(content, path);
+    return resolveIncludes(included.typed, included.raw, { ...context, chain });
+}
+
+/**
+ * Replace `include` directives in a document with the included content.
+ * An included list inside a list is spliced in, so shared steps can be
+ * mixed with the agent's own. Unchanged values are returned as-is.
+ * 
+ * @returns The resolved [typed, raw] values
+ */
+async function resolveIncludes(
+    typed: unknown,
+    raw: unknown,
+    context: CompositionContext
+): Promise<[unknown, unknown]> {
+    const includePath = getIncludePath(raw);
+    if (includePath !== null) {
+        return loadInclude(includePath, context);
+    }
+
+    if (Array.isArray(typed) && Array.isArray(raw)) {
+        const typedItems: unknown[] = [];
+        const rawItems: unknown[] = [];
+        let changed = false;
+
+        for (let i = 0; i < typed.length; i++) {
+            const [typedItem, rawItem] = await resolveIncludes(typed[i], raw[i], context);
+            if (getIncludePath(raw[i]) !== null && Array.isArray(typedItem)) {
+                typedItems.push(...typedItem);
+                rawItems.push(...(rawItem as unknown[]));
+            } else {
+                typedItems.push(typedItem);
+                rawItems.push(rawItem);
+            }
+            changed ||= typedItem !== typed[i];
+        }
+        return changed ? [typedItems, rawItems] : [typed, raw];
+    }
+
+    if (typeof typed === 'object' && typed !== null && typeof raw === 'object' && raw !== null) {
+        const typedMapping: Record<string, unknown> = {};
+        const rawMapping: Record<string, unknown> = {};
+        let changed = false;
+
+        for (const key of Object.keys(typed)) {
+            const typedValue = (typed as Record<string, unknown>)[key];
+            const [typedResult, rawResult] = await resolveIncludes(
+                typedValue,
+                (raw as Record<string, unknown>)[key],
+                context
+            );
+            typedMapping[key] = typedResult;
+            rawMapping[key] = rawResult;
+            changed ||= typedResult !== typedValue;
+        }
+        return changed ? [typedMapping, rawMapping] : [typed, raw];
+    }
+
+    return [typed, raw];
+}
+
+/**
+ * Find the agent named by `extends`: user agents in the agents directory
+ * first, then built-in agents. An agent extending its own ID (to customize
+ * the built-in of the same name) skips itself.
+ */
+async function resolveBaseAgent(
+    agentId: unknown,
+    currentPath: string,
+    context: CompositionContext
+): Promise<{ path: string; agentsDir: string }> {
+    const { agentsDir } = context;
+    // Security: the ID becomes part of a file path
+    if (typeof agentId !== 'string' || !isValidAgentId(agentId)) {
+        throw new Error(`[Beddel] Invalid extends agent ID: "${String(agentId)}"`);
+    }
+
+    const userPath = join(resolve(agentsDir), `${agentId}.yaml`);
+    if (userPath !== currentPath) {
+        if (await fileExists(userPath)) {
+            return { path: userPath, agentsDir };
+        }
+        // Creating it later changes which base is used
+        context.files?.push(userPath);
+    }
+
+    const builtinPath = getBuiltinAgentPath(agentId);
+    if (builtinPath && await fileExists(builtinPath)) {
+        return { path: builtinPath, agentsDir: getBuiltinAgentsPath() };
+    }
+
+    throw new Error(`[Beddel] Agent not found for extends: ${agentId}`);
+}
+
+/**
+ * Load an agent file, resolve its includes and base agent, and validate
+ * the composed result.
+ */
+async function loadAgent(filename: string, context: CompositionContext): Promise<ParsedYaml> {
+    const path = resolve(filename);
+    const chain = enterFile(path, context.chain);
+    context.files?.push(path);
+    const source = loadDocument(await readFile(path, 'utf-8'), filename);
+
+    let [typed, raw] = await resolveIncludes(source.typed, source.raw, { ...context, chain });
+    let composed = typed !== source.typed;
+
+    if (typeof typed === 'object' && typed !== null && 'extends' in typed) {
+        const { extends: _typedId, ...typedChild } = typed as Record<string, unknown>;
+        const { extends: agentId, ...rawChild } = raw as Record<string, unknown>;
+
+        const base = await resolveBaseAgent(agentId, path, context);
+        const baseYaml = await loadAgent(base.path, { agentsDir: base.agentsDir, chain, files: context.files }) as unknown as Record<string, unknown>;
+
+        typed = extendAgent(baseYaml, typedChild);
+        raw = extendAgent(baseYaml, rawChild);
+        composed = true;
+    }
+
+    return validateDocument(typed, raw, source, composed);
+}
+
+/**
+ * Load, parse and validate a YAML workflow file securely.
+ * See parseYaml() for the security and validation rules.
+ * 
+ * Agents can be composed from other files:
+ * - `extends: <agentId>` starts from another agent; `metadata` is merged,
+ *   steps with the same `id` are merged and new steps are appended
+ * - `include: <path>` anywhere in the document is replaced by the file's
+ *   content (parsed for .yaml/.yml, text otherwise)
+ * 
+ * @example
+ * metadata:
+ *   name: "Support Assistant"
+ * extends: "assistant"
+ * workflow:
+ *   - id: "chat-interaction"
+ *     config:
+ *       system:
+ *         include: "prompts/support.md"
+ * 
+ * @param path - Absolute or relative path to YAML file
+ * @param options - Directory for resolving `extends` and `include`, and a list
+ *   that receives the files the agent was composed from
+ * @returns Parsed YAML as typed ParsedYaml object
+ * @throws Error if a file cannot be read, YAML is invalid, it fails validation,
+ *         or `extends`/`include` form a cycle or leave the agents directory
+ */
+export async function loadYaml(path: string, options: LoadYamlOptions = {}): Promise<ParsedYaml> {
+    return loadAgent(path, { agentsDir: options.agentsDir ?? dirname(path), chain: [], files: options.files });
 }
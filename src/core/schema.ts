@@ -0,0 +1,653 @@
+/**
+ * Beddel Protocol - Agent YAML Schema
+ * 
+ * Zod schemas for ParsedYaml, YamlMetadata, WorkflowStep and the config of
+ * each built-in step type. Unknown keys are rejected so typos like `workfow:`
+ * or `promt:` fail at load time instead of as runtime crashes.
+ * 
+ * The schemas also produce the typed document: they run on the CORE_SCHEMA
+ * parse (plain scalars typed as numbers/booleans/null), and string fields get
+ * the raw FAILSAFE_SCHEMA text back, so `version: 1.0` stays "1.0" while
+ * `timeout: 5000` becomes a number. Quoted numbers in number fields are
+ * converted too.
+ */
+
+import type { GoogleGenerativeAIProviderOptions } from '@ai-sdk/google';
+import { z } from 'zod';
+
+/**
+ * Params attached to unknown-key issues, used to locate the key itself
+ * (instead of its value) when reporting line numbers.
+ */
+export interface UnknownKeyParams {
+    unknownKey: true;
+}
+
+/** Maximum edit distance for "Did you mean" suggestions */
+const MAX_SUGGESTION_DISTANCE = 3;
+
+/**
+ * Levenshtein edit distance between two strings.
+ */
+function editDistance(a: string, b: string): number {
+    const previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        let diagonal = previous[0];
+        previous[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const above = previous[j];
+            previous[j] = a[i - 1] === b[j - 1]
+                ? diagonal
+                : 1 + Math.min(diagonal, above, previous[j - 1]);
+            diagonal = above;
+        }
+    }
+    return previous[b.length];
+}
+
+/**
+ * Find the candidate closest to `value`, if it is close enough to be a typo.
+ */
+export function suggest(value: string, candidates: readonly string[]): string | undefined {
+    let best: string | undefined;
+    let bestDistance = Infinity;
+    for (const candidate of candidates) {
+        const distance = editDistance(value.toLowerCase(), candidate.toLowerCase());
+        if (distance < bestDistance) {
+            best = candidate;
+            bestDistance = distance;
+        }
+    }
+    const limit = Math.min(MAX_SUGGESTION_DISTANCE, Math.ceil(value.length / 2));
+    return bestDistance <= limit ? best : undefined;
+}
+
+/**
+ * Check whether a value is a plain mapping.
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Raw (FAILSAFE_SCHEMA) counterpart of each typed mapping, by identity.
+ */
+const rawMappings = new WeakMap<object, Record<string, unknown>>();
+
+/**
+ * Link a typed document to its raw parse so string fields can recover
+ * their original text. Both documents must come from the same source.
+ * 
+ * @param typed - Document parsed with CORE_SCHEMA
+ * @param raw - Same document parsed with FAILSAFE_SCHEMA
+ */
+export function linkRawDocument(typed: unknown, raw: unknown): void {
+    if (Array.isArray(typed) && Array.isArray(raw)) {
+        typed.forEach((item, i) => linkRawDocument(item, raw[i]));
+    } else if (isRecord(typed) && isRecord(raw)) {
+        rawMappings.set(typed, raw);
+        for (const [key, value] of Object.entries(typed)) {
+            linkRawDocument(value, raw[key]);
+        }
+    }
+}
+
+/**
+ * Check whether a field expects a string (so it keeps its raw text).
+ */
+function isStringField(schema: z.ZodType): boolean {
+    const inner = schema instanceof z.ZodOptional ? schema.unwrap() : schema;
+    return inner instanceof z.ZodString;
+}
+
+/**
+ * Schemas of free-form values (templates, payloads, API bodies).
+ */
+const freeFormSchemas = new WeakSet<z.ZodType>();
+
+/**
+ * Mark a schema as free-form, so numbers inside it keep their raw text
+ * when converting would change it.
+ */
+function freeForm<T extends z.ZodType>(schema: T): T {
+    freeFormSchemas.add(schema);
+    return schema;
+}
+
+/**
+ * Check whether a field holds a free-form value.
+ */
+function isFreeFormField(schema: z.ZodType): boolean {
+    const inner = schema instanceof z.ZodOptional ? schema.unwrap() : schema;
+    return freeFormSchemas.has(inner as z.ZodType);
+}
+
+/**
+ * Restore the raw text of numbers in a free-form value whose text does not
+ * round-trip (e.g., `zip: 01234` stays "01234", `price: 1.50` stays "1.50").
+ */
+function restoreFreeForm(typed: unknown, raw: unknown): unknown {
+    if (Array.isArray(typed)) {
+        return Array.isArray(raw) ? typed.map((item, i) => restoreFreeForm(item, raw[i])) : typed;
+    }
+    if (isRecord(typed)) {
+        if (!isRecord(raw)) return typed;
+        const restored: Record<string, unknown> = {};
+        for (const [key, value] of Object.entries(typed)) {
+            restored[key] = restoreFreeForm(value, raw[key]);
+        }
+        return restored;
+    }
+    if (typeof typed === 'number' && typeof raw === 'string' && String(typed) !== raw) {
+        return raw;
+    }
+    return typed;
+}
+
+/**
+ * Object schema that keeps unknown keys as they are.
+ * String fields take their raw text, so `id: 1` or `if: true` stay strings,
+ * and free-form fields keep numbers whose text would change.
+ */
+function openObject<T extends z.ZodRawShape>(shape: T) {
+    const knownKeys = Object.keys(shape);
+    const stringKeys = knownKeys.filter((key) => isStringField(shape[key] as z.ZodType));
+    const freeFormKeys = knownKeys.filter((key) => isFreeFormField(shape[key] as z.ZodType));
+
+    const withRawStrings = (value: unknown): unknown => {
+        const raw = isRecord(value) ? rawMappings.get(value) : undefined;
+        if (!raw) return value;
+        const restored: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+        for (const key of stringKeys) {
+            const typedValue = restored[key];
+            if (typedValue !== null && typeof typedValue !== 'object' && typeof raw[key] === 'string') {
+                restored[key] = raw[key];
+            }
+        }
+        for (const key of freeFormKeys) {
+            restored[key] = restoreFreeForm(restored[key], raw[key]);
+        }
+        return restored;
+    };
+
+    return z.preprocess(withRawStrings, z.looseObject(shape));
+}
+
+/**
+ * Object schema that rejects unknown keys with a "Did you mean" suggestion.
+ * The check runs even when other keys are invalid, so every issue is reported.
+ */
+function strictObject<T extends z.ZodRawShape>(shape: T) {
+    const knownKeys = Object.keys(shape);
+
+    return openObject(shape).superRefine((value, ctx) => {
+        for (const key of Object.keys(value)) {
+            if (knownKeys.includes(key)) continue;
+            const suggestion = suggest(key, knownKeys);
+            const params: UnknownKeyParams = { unknownKey: true };
+            ctx.addIssue({
+                code: 'custom',
+                path: [key],
+                message: `Unknown key "${key}"` + (suggestion ? `. Did you mean "${suggestion}"?` : ''),
+                params,
+            });
+        }
+    }, { when: (payload) => isRecord(payload.value) });
+}
+
+/**
+ * Enum schema whose error lists the options and suggests the closest one.
+ */
+function oneOf<const T extends readonly [string, ...string[]]>(values: T) {
+    return z.enum(values, {
+        error: (issue) => {
+            const suggestion = typeof issue.input === 'string' ? suggest(issue.input, values) : undefined;
+            return `Expected one of ${values.map((v) => `"${v}"`).join(', ')}` +
+                (suggestion ? `. Did you mean "${suggestion}"?` : '');
+        },
+    });
+}
+
+/** Numeric scalar (quoted numbers like "30000" are converted) */
+const numberValue = z.union([
+    z.number(),
+    z.string().regex(/^-?\d+(\.\d+)?$/).transform(Number),
+], { error: 'Expected a number' });
+
+/** Boolean scalar (quoted "true"/"false" are converted) */
+const booleanValue = z.union([
+    z.boolean(),
+    z.enum(['true', 'false']).transform((value) => value === 'true'),
+], { error: 'Expected true or false' });
+
+/** Variable reference resolved at runtime (e.g., "$input.pageSize") */
+const reference = z.string().regex(/^\$/);
+
+/** Config values may also be variable references resolved at runtime */
+const configNumber = z.union([numberValue, reference], { error: 'Expected a number or variable reference' });
+const configBoolean = z.union([booleanValue, reference], { error: 'Expected true, false or a variable reference' });
+const configRecord = freeForm(z.union([z.record(z.string(), z.unknown()), reference], { error: 'Expected a mapping or variable reference' }));
+const configArray = freeForm(z.union([z.array(z.unknown()), reference], { error: 'Expected a list or variable reference' }));
+
+/** Any value, e.g. an output template or approval payload */
+const freeFormValue = freeForm(z.unknown());
+
+/**
+ * Message in llm/chat `messages`: free-form, except that a scalar `content`
+ * keeps its raw text (`content: 42` is "42").
+ */
+const messageSchema = z.preprocess((message) => {
+    const raw = isRecord(message) ? rawMappings.get(message) : undefined;
+    if (!isRecord(message) || !raw) return message;
+    const restored = restoreFreeForm(message, raw) as Record<string, unknown>;
+    if (message.content !== null && typeof message.content !== 'object' && typeof raw.content === 'string') {
+        restored.content = raw.content;
+    }
+    return restored;
+}, z.unknown());
+
+/** Environment variable name (e.g., "NOTION_DATABASE_ID") */
+const envVarName = z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Expected an environment variable name');
+
+const errorTypeSchema = oneOf([
+    'timeout', 'auth_failed', 'validation', 'network', 'rate_limited', 'server_error', 'unknown',
+]);
+
+const metadataShape = {
+    name: z.string(),
+    version: z.string(),
+    description: z.string().optional(),
+    builtin: booleanValue.optional(),
+    observability: strictObject({
+        enabled: booleanValue,
+    }).optional(),
+    timeout: numberValue.optional(),
+    strict: booleanValue.optional(),
+    env: z.array(envVarName).optional(),
+};
+
+/** Metadata keys Beddel reads; lintAgent() flags others that look like typos */
+export const metadataKeys = Object.keys(metadataShape);
+
+/**
+ * Schema for YamlMetadata. Other keys (e.g., `author`, `tags`) are kept as
+ * they are, for tooling that reads them.
+ */
+export const metadataSchema = openObject(metadataShape);
+
+/**
+ * Schema for RetryPolicy.
+ */
+export const retryPolicySchema = strictObject({
+    maxAttempts: numberValue.optional(),
+    backoff: numberValue.optional(),
+    jitter: booleanValue.optional(),
+    retryOn: z.array(errorTypeSchema).optional(),
+});
+
+/**
+ * Schema for WorkflowStep. `config` is checked against the schema for the
+ * step's type when it is a built-in type; custom primitives accept any config.
+ */
+export const stepSchema: z.ZodType = z.lazy(() => strictObject({
+    id: z.string(),
+    type: z.string(),
+    // Kept as-is here (validated and converted by the step type's schema below)
+    config: z.unknown().optional(),
+    result: z.string().optional(),
+    if: z.string().optional(),
+    unless: z.string().optional(),
+    retry: retryPolicySchema.optional(),
+    timeout: numberValue.optional(),
+    continueOnError: booleanValue.optional(),
+    onError: z.array(stepSchema).optional(),
+}).superRefine((step, ctx) => {
+    const configSchema = stepConfigSchemas[step.type];
+    if (!configSchema) {
+        if (step.config !== undefined && !isRecord(step.config)) {
+            ctx.addIssue({ code: 'custom', path: ['config'], message: 'Expected a mapping' });
+        }
+        return;
+    }
+
+    // Report config issues at their location inside the step
+    const result = configSchema.safeParse(step.config ?? {});
+    if (result.success) return;
+    for (const issue of result.error.issues) {
+        ctx.addIssue({
+            code: 'custom',
+            path: ['config', ...issue.path],
+            message: issue.message,
+            params: issue.code === 'custom' ? issue.params : undefined,
+        });
+    }
+}, { when: (payload) => isRecord(payload.value) && typeof payload.value.type === 'string' }).transform((step) => {
+    // Replace config with its typed output (only runs once validation passed)
+    const configSchema = stepConfigSchemas[step.type];
+    return configSchema && step.config !== undefined
+        ? { ...step, config: configSchema.parse(step.config) }
+        : step;
+}));
+
+const stepListSchema = z.array(stepSchema);
+
+const jsonSchemaType = oneOf(['string', 'number', 'integer', 'boolean', 'object', 'array', 'null']);
+
+/**
+ * Schema for the JSON Schema subset accepted as an llm/chat output `schema:`.
+ */
+export const jsonSchemaSchema: z.ZodType = z.lazy(() => strictObject({
+    type: z.union([jsonSchemaType, z.array(jsonSchemaType)]).optional(),
+    description: z.string().optional(),
+    properties: z.record(z.string(), jsonSchemaSchema).optional(),
+    required: z.array(z.string()).optional(),
+    additionalProperties: booleanValue.optional(),
+    items: jsonSchemaSchema.optional(),
+    enum: z.array(z.union([z.string(), z.number(), z.boolean(), z.null()])).optional(),
+    minimum: numberValue.optional(),
+    maximum: numberValue.optional(),
+    minLength: numberValue.optional(),
+    maxLength: numberValue.optional(),
+    pattern: z.string().optional(),
+    format: z.string().optional(),
+    minItems: numberValue.optional(),
+    maxItems: numberValue.optional(),
+}));
+
+/**
+ * Every key of a provider's options type. Lists typed with it are checked
+ * against the provider package: tsc fails when an upgrade adds or removes a key.
+ */
+type OptionKeys<T> = Record<keyof Required<T>, true>;
+
+type GoogleOptions = GoogleGenerativeAIProviderOptions;
+
+const googleOptionKeys: OptionKeys<GoogleOptions> = {
+    responseModalities: true,
+    thinkingConfig: true,
+    cachedContent: true,
+    structuredOutputs: true,
+    safetySettings: true,
+    threshold: true,
+    audioTimestamp: true,
+    labels: true,
+    mediaResolution: true,
+    imageConfig: true,
+    retrievalConfig: true,
+    streamFunctionCallArguments: true,
+    serviceTier: true,
+    sharedRequestType: true,
+    requestType: true,
+};
+
+const googleThinkingConfigKeys: OptionKeys<NonNullable<GoogleOptions['thinkingConfig']>> = {
+    thinkingBudget: true,
+    includeThoughts: true,
+    thinkingLevel: true,
+};
+
+/**
+ * Mapping with only the given keys. Values are not checked here: the
+ * provider validates them against its own schema when the step runs.
+ */
+function optionKeysObject(keys: Record<string, true>, shape: z.ZodRawShape = {}) {
+    return strictObject({
+        ...Object.fromEntries(Object.keys(keys).map((key) => [key, z.unknown().optional()])),
+        ...shape,
+    });
+}
+
+/**
+ * Google options. Unknown keys are rejected: the provider silently ignores them.
+ */
+const googleOptionsSchema = optionKeysObject(googleOptionKeys, {
+    thinkingConfig: optionKeysObject(googleThinkingConfigKeys).optional(),
+});
+
+/**
+ * Schemas for `providerOptions` entries that need more than a mapping, keyed
+ * by provider name. Other entries (including `bedrock` and `openrouter`, which
+ * send unknown keys to the API as-is) accept any mapping.
+ */
+export const providerOptionsSchemas: Record<string, z.ZodType> = {
+    'google': googleOptionsSchema,
+};
+
+/**
+ * Schema for `providerOptions`: each entry is checked against its provider's schema.
+ */
+const providerOptionsSchema = z.record(z.string(), z.unknown()).superRefine((options, ctx) => {
+    for (const [provider, value] of Object.entries(options)) {
+        const schema = providerOptionsSchemas[provider] ?? z.record(z.string(), z.unknown());
+        const result = schema.safeParse(value);
+        if (result.success) continue;
+        for (const issue of result.error.issues) {
+            ctx.addIssue({
+                code: 'custom',
+                path: [provider, ...issue.path],
+                message: issue.message,
+                params: issue.code === 'custom' ? issue.params : undefined,
+            });
+        }
+    }
+}).transform((options) => Object.fromEntries(Object.entries(options).map(([provider, value]) => [
+    provider,
+    providerOptionsSchemas[provider]?.parse(value) ?? value,
+])));
+
+/** Tool choice: a mode, or a specific tool ({ type: "tool", toolName }) */
+const toolChoiceSchema = z.union([
+    oneOf(['auto', 'none', 'required']),
+    strictObject({ type: z.literal('tool'), toolName: z.string() }),
+], { error: 'Expected "auto", "none", "required" or { type: "tool", toolName }' });
+
+/** Built-in providers that ignore `baseURL` and `apiKeyEnv` (only openai-compatible reads them) */
+const PROVIDERS_WITHOUT_ENDPOINT = ['google', 'bedrock', 'openrouter'];
+
+/**
+ * Reject `baseURL`/`apiKeyEnv` for built-in providers that would ignore them.
+ * A missing provider means 'google'. Custom providers receive both in their ProviderConfig.
+ */
+function checkEndpointKeys(
+    config: { provider?: string; baseURL?: string; apiKeyEnv?: string },
+    ctx: z.RefinementCtx
+): void {
+    const provider = config.provider || 'google';
+    if (!PROVIDERS_WITHOUT_ENDPOINT.includes(provider)) return;
+    for (const key of ['baseURL', 'apiKeyEnv'] as const) {
+        if (config[key] !== undefined) {
+            ctx.addIssue({
+                code: 'custom',
+                path: [key],
+                message: `"${key}" is not supported by the ${provider} provider (use provider "openai-compatible")`,
+            });
+        }
+    }
+}
+
+/** Keys shared by llm and chat configs */
+const llmConfigShape = {
+    provider: z.string().optional(),
+    model: z.string().optional(),
+    system: z.string().optional(),
+    messages: z.union([z.string(), z.array(messageSchema)]).optional(),
+    tools: z.array(strictObject({
+        name: z.string(),
+        description: z.string().optional(),
+    })).optional(),
+    onFinish: z.string().optional(),
+    onError: z.string().optional(),
+    schema: jsonSchemaSchema.optional(),
+    temperature: configNumber.optional(),
+    maxOutputTokens: configNumber.optional(),
+    topP: configNumber.optional(),
+    topK: configNumber.optional(),
+    presencePenalty: configNumber.optional(),
+    frequencyPenalty: configNumber.optional(),
+    seed: configNumber.optional(),
+    stopSequences: z.array(z.string()).optional(),
+    toolChoice: toolChoiceSchema.optional(),
+    maxSteps: configNumber.optional(),
+    providerOptions: providerOptionsSchema.optional(),
+    baseURL: z.string().optional(),
+    apiKeyEnv: envVarName.optional(),
+    fallbacks: z.array(strictObject({
+        provider: z.string(),
+        model: z.string().optional(),
+        baseURL: z.string().optional(),
+        apiKeyEnv: envVarName.optional(),
+    }).superRefine(checkEndpointKeys)).optional(),
+};
+
+/**
+ * Schema for LlmConfig (chat steps).
+ */
+export const llmConfigSchema = strictObject(llmConfigShape).superRefine(checkEndpointKeys);
+
+/**
+ * Schema for LlmConfig of llm steps, which can also retry schema violations.
+ */
+export const llmStepConfigSchema = strictObject({
+    ...llmConfigShape,
+    schemaRetries: configNumber.optional(),
+}).superRefine(checkEndpointKeys);
+
+/**
+ * Schema for output-generator config.
+ */
+export const outputConfigSchema = strictObject({
+    template: freeFormValue.optional(),
+    json: z.string().optional(),
+});
+
+/**
+ * Schema for call-agent config.
+ */
+export const callAgentConfigSchema = strictObject({
+    agentId: z.string(),
+    input: freeFormValue.optional(),
+    agentsPath: z.string().optional(),
+});
+
+/**
+ * Schema for McpToolConfig.
+ */
+export const mcpToolConfigSchema = strictObject({
+    url: z.string(),
+    tool: z.string(),
+    arguments: configRecord.optional(),
+    timeout: configNumber.optional(),
+    headers: configRecord.optional(),
+});
+
+/**
+ * Schema for NotionConfig.
+ */
+export const notionConfigSchema = strictObject({
+    action: oneOf([
+        'search', 'getPage', 'createPage', 'updatePage', 'getDatabase',
+        'queryDatabase', 'getBlocks', 'appendBlocks', 'createDatabase',
+    ]),
+    pageId: z.string().optional(),
+    databaseId: z.string().optional(),
+    blockId: z.string().optional(),
+    query: z.string().optional(),
+    filter: configRecord.optional(),
+    sorts: configArray.optional(),
+    parent: configRecord.optional(),
+    properties: configRecord.optional(),
+    children: configArray.optional(),
+    icon: configRecord.optional(),
+    cover: configRecord.optional(),
+    title: configArray.optional(),
+    pageSize: configNumber.optional(),
+    startCursor: z.string().optional(),
+    after: z.string().optional(),
+});
+
+/**
+ * Schema for GoogleBusinessConfig.
+ */
+export const googleBusinessConfigSchema = strictObject({
+    action: oneOf([
+        'listReviews', 'replyReview', 'batchGetReviews', 'createPost',
+        'listPosts', 'getMetrics', 'listQuestions', 'answerQuestion',
+    ]),
+    accountId: z.string().optional(),
+    locationId: z.string().optional(),
+    locationNames: configArray.optional(),
+    reviewName: z.string().optional(),
+    comment: z.string().optional(),
+    questionName: z.string().optional(),
+    answer: z.string().optional(),
+    post: configRecord.optional(),
+    metrics: configArray.optional(),
+    dateRange: freeForm(z.union([z.string(), z.record(z.string(), z.unknown())])).optional(),
+    pageSize: configNumber.optional(),
+    maxPages: configNumber.optional(),
+    orderBy: z.string().optional(),
+    ignoreRatingOnlyReviews: configBoolean.optional(),
+});
+
+/**
+ * Schema for await-approval config.
+ */
+export const awaitApprovalConfigSchema = strictObject({
+    message: z.string().optional(),
+    payload: freeFormValue.optional(),
+});
+
+/**
+ * Schema for foreach config.
+ */
+export const foreachConfigSchema = strictObject({
+    items: freeFormValue,
+    steps: stepListSchema,
+    concurrency: numberValue.optional(),
+    maxIterations: numberValue.optional(),
+});
+
+/**
+ * Schema for parallel config.
+ */
+export const parallelConfigSchema = strictObject({
+    steps: stepListSchema,
+    policy: oneOf(['fail-fast', 'settle-all']).optional(),
+});
+
+/**
+ * Schema for switch config.
+ */
+export const switchConfigSchema = strictObject({
+    value: freeFormValue,
+    json: z.string().optional(),
+    cases: z.record(z.string(), stepListSchema).optional(),
+    default: stepListSchema.optional(),
+});
+
+/**
+ * Config schemas for built-in step types, keyed by step type.
+ */
+export const stepConfigSchemas: Record<string, z.ZodType> = {
+    'llm': llmStepConfigSchema,
+    'chat': llmConfigSchema,
+    'output-generator': outputConfigSchema,
+    'call-agent': callAgentConfigSchema,
+    'mcp-tool': mcpToolConfigSchema,
+    'notion': notionConfigSchema,
+    'google-business': googleBusinessConfigSchema,
+    'await-approval': awaitApprovalConfigSchema,
+    'foreach': foreachConfigSchema,
+    'parallel': parallelConfigSchema,
+    'switch': switchConfigSchema,
+};
+
+/**
+ * Schema for a complete agent YAML document (ParsedYaml).
+ */
+export const parsedYamlSchema = strictObject({
+    metadata: metadataSchema,
+    workflow: stepListSchema,
+    return: freeFormValue.optional(),
+    catch: freeFormValue.optional(),
+});
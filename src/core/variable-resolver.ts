@@ -3,91 +3,191 @@
  * 
  * Resolves template variables in step configurations.
  * Patterns: $input.path.to.value, $stepResult.path.to.value, $env.VAR_NAME
+ * Built-ins: $now, $uuid, $run.id, $agent.name, $step.id
+ * Expressions: ${ $input.name | upper } (see ./expression)
  * 
  * Server-only: Used within WorkflowExecutor during step execution.
  */
 
+import { randomUUID } from 'crypto';
 import type { ExecutionContext } from '../types';
+import {
+    evaluateExpression,
+    findExpressionReferences,
+    findTemplateExpressions,
+    getPath,
+    isTruthy,
+    toText,
+    WILDCARD,
+} from './expression';
+import type { PathSegment } from './expression';
+import { readEnv } from './env';
+import type { ExpressionError } from './errors';
 
 /**
- * Resolve a path like "foo.bar.baz" on an object.
- * Returns undefined if path doesn't exist.
+ * One step of a reference path: `.name`, `.0`, `[0]`, `[-1]`, `['Created At']` or `[*]`.
  */
-function resolvePath(obj: unknown, path: string): unknown {
-    const parts = path.split('.');
-    let current: unknown = obj;
+const PATH_SEGMENT = String.raw`(?:\.(?:[a-zA-Z_][a-zA-Z0-9_]*|[0-9]+)|\[(?:\*|-?[0-9]+|'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*")\])`;
 
-    for (const part of parts) {
-        if (current === null || current === undefined) {
-            return undefined;
+/**
+ * A variable reference: `$name` followed by path segments.
+ * Group 1 is the name, group 2 the path.
+ */
+const REFERENCE_SOURCE = String.raw`\$([a-zA-Z_][a-zA-Z0-9_]*)(${PATH_SEGMENT}*)`;
+
+/** Matches references within a larger string */
+const REFERENCE_PATTERN = new RegExp(REFERENCE_SOURCE, 'g');
+
+/** Matches a string that is exactly one reference */
+const WHOLE_REFERENCE_PATTERN = new RegExp(`^${REFERENCE_SOURCE}$`);
+
+/**
+ * Names of the built-in variables. They take precedence over legacy `$name`
+ * step results; a result with one of these names is still readable as
+ * `$stepResult.name`.
+ */
+export const BUILTIN_VARIABLES = ['now', 'uuid', 'run', 'agent', 'step'];
+
+/**
+ * Split the path part of a reference into keys.
+ * 
+ * @example
+ * parsePath(".data[*].author['display name']") // ['data', WILDCARD, 'author', 'display name']
+ */
+function parsePath(path: string): PathSegment[] {
+    const segments: PathSegment[] = [];
+    const segmentPattern = new RegExp(PATH_SEGMENT, 'g');
+
+    for (const [segment] of path.matchAll(segmentPattern)) {
+        if (segment.startsWith('.')) {
+            segments.push(segment.slice(1));
+            continue;
         }
-        if (typeof current === 'object') {
-            current = (current as Record<string, unknown>)[part];
+
+        const inner = segment.slice(1, -1);
+        if (inner === '*') {
+            segments.push(WILDCARD);
+        } else if (inner.startsWith("'") || inner.startsWith('"')) {
+            // Quoted key: drop the quotes and unescape \' \" \\
+            segments.push(inner.slice(1, -1).replace(/\\(.)/g, '$1'));
         } else {
-            return undefined;
+            segments.push(Number(inner));
         }
     }
 
-    return current;
+    return segments;
 }
 
 /**
- * Interpolate variable references within a string.
- * Replaces $input.*, $stepResult.*, and $varName.* patterns.
- * 
- * @param template - String containing variable references
- * @param context - Execution context
- * @returns String with variables replaced by their values
+ * Resolve a built-in variable:
+ * - `$now` is the current time as an ISO string; `$now.date` (YYYY-MM-DD),
+ *   `$now.time` (HH:mm:ss), `$now.timestamp` (ms) and `$now.unix` (s) are UTC variants
+ * - `$uuid` is a new random UUID on every use
+ * - `$run.id` identifies the run (also in trace events and checkpoints)
+ * - `$agent.name` / `$agent.version` come from the agent's metadata
+ * - `$step.id` / `$step.type` describe the step being run
  */
-function interpolateVariables(template: string, context: ExecutionContext): string {
-    // Pattern to match $input.path, $stepResult.varName.path, or $varName.path
-    // Matches: $word.word.word... (stops at whitespace, newline, or end)
-    const variablePattern = /\$([a-zA-Z_][a-zA-Z0-9_]*(?:\.[a-zA-Z_][a-zA-Z0-9_]*)*)/g;
-
-    return template.replace(variablePattern, (match, fullPath: string) => {
-        // Handle $env.* pattern (environment variables)
-        if (fullPath.startsWith('env.')) {
-            const envVar = fullPath.slice(4); // Remove "env."
-            const value = process.env[envVar];
-            return value !== undefined ? value : match;
+function resolveBuiltin(name: string, path: PathSegment[], context: ExecutionContext): unknown {
+    switch (name) {
+        case 'now': {
+            const iso = new Date().toISOString();
+            if (path.length === 0) return iso;
+            const now = {
+                iso,
+                date: iso.slice(0, 10),
+                time: iso.slice(11, 19),
+                timestamp: Date.parse(iso),
+                unix: Math.floor(Date.parse(iso) / 1000),
+            };
+            return getPath(now, path);
         }
+        case 'uuid':
+            return path.length === 0 ? randomUUID() : undefined;
+        case 'run':
+            return context.runId === undefined ? undefined : getPath({ id: context.runId }, path);
+        case 'agent':
+            return getPath(context.agent, path);
+        case 'step':
+            return getPath(context.step, path);
+        default:
+            return undefined;
+    }
+}
 
-        // Handle $input.* pattern
-        if (fullPath.startsWith('input.')) {
-            const path = fullPath.slice(6); // Remove "input."
-            const value = resolvePath(context.input, path);
-            return value !== undefined ? String(value) : match;
-        }
+/**
+ * Resolve a `$name` reference with its path. Used for plain references and
+ * for references inside expressions, so both follow the same rules:
+ * - `$env.NAME` reads a single environment variable, if the run's env policy
+ *   allows it (contexts without a policy read any variable)
+ * - `$input.*` reads from the request input
+ * - built-ins (`$now`, `$uuid`, `$run`, `$agent`, `$step`, see resolveBuiltin)
+ * - `$stepResult.name.*` (or legacy `$name.*`) reads a step result
+ * Only own properties are read along the path; `[*]` projects over arrays.
+ */
+function resolveReference(name: string, path: PathSegment[], context: ExecutionContext): unknown {
+    if (name === 'env') {
+        // Only single variables, never the whole environment
+        if (path.length !== 1 || typeof path[0] === 'symbol') return undefined;
+        return readEnv(context.env, String(path[0]));
+    }
+    if (name === 'input') {
+        return getPath(context.input, path);
+    }
+    if (name === 'stepResult') {
+        if (path.length === 0 || typeof path[0] === 'symbol') return undefined;
+        return getPath(context.variables.get(String(path[0])), path.slice(1));
+    }
+    if (BUILTIN_VARIABLES.includes(name)) {
+        return resolveBuiltin(name, path, context);
+    }
+    // Legacy $varName.* pattern
+    return getPath(context.variables.get(name), path);
+}
 
-        // Handle $stepResult.* pattern
-        if (fullPath.startsWith('stepResult.')) {
-            const restPath = fullPath.slice(11); // Remove "stepResult."
-            const dotIndex = restPath.indexOf('.');
+/**
+ * Resolve a string containing `${ ... }` expressions.
+ * A string that is a single expression returns its value as-is (any type);
+ * otherwise each expression is replaced by its text, and plain `$` references
+ * between expressions are interpolated as usual. `$${` is written as `${`.
+ */
+function resolveTemplate(template: string, context: ExecutionContext): unknown {
+    const expressions = findTemplateExpressions(template);
+    const resolve = (name: string, path: PathSegment[]) => resolveReference(name, path, context);
 
-            if (dotIndex === -1) {
-                const value = context.variables.get(restPath);
-                return value !== undefined ? String(value) : match;
-            }
+    const [first] = expressions;
+    if (expressions.length === 1 && template.slice(0, first.start).trim() === '' && template.slice(first.end).trim() === '') {
+        return evaluateExpression(first.source, resolve);
+    }
 
-            const varName = restPath.slice(0, dotIndex);
-            const valuePath = restPath.slice(dotIndex + 1);
-            const varValue = context.variables.get(varName);
-            const value = resolvePath(varValue, valuePath);
-            return value !== undefined ? String(value) : match;
-        }
+    // Text between expressions, with escaped `$${` unescaped
+    const interpolateText = (text: string): string =>
+        text.split('$${').map((part) => interpolateVariables(part, context)).join('${');
 
-        // Handle legacy $varName.* pattern
-        const dotIndex = fullPath.indexOf('.');
-        if (dotIndex === -1) {
-            const value = context.variables.get(fullPath);
-            return value !== undefined ? String(value) : match;
-        }
+    let result = '';
+    let position = 0;
+    for (const expression of expressions) {
+        result += interpolateText(template.slice(position, expression.start));
+        const value = evaluateExpression(expression.source, resolve);
+        // Like plain references, unresolved expressions stay visible in the output
+        result += value !== undefined ? toText(value) : template.slice(expression.start, expression.end);
+        position = expression.end;
+    }
+    return result + interpolateText(template.slice(position));
+}
 
-        const varName = fullPath.slice(0, dotIndex);
-        const valuePath = fullPath.slice(dotIndex + 1);
-        const varValue = context.variables.get(varName);
-        const value = resolvePath(varValue, valuePath);
-        return value !== undefined ? String(value) : match;
+/**
+ * Interpolate variable references within a string.
+ * Replaces $input.*, $stepResult.*, and $varName.* patterns; objects and
+ * arrays are inserted as JSON.
+ * 
+ * @param template - String containing variable references
+ * @param context - Execution context
+ * @returns String with variables replaced by their values
+ */
+function interpolateVariables(template: string, context: ExecutionContext): string {
+    return template.replace(REFERENCE_PATTERN, (match, name: string, path: string) => {
+        const value = resolveReference(name, parsePath(path), context);
+        return value !== undefined ? toText(value) : match;
     });
 }
 
@@ -95,9 +195,16 @@ function interpolateVariables(template: string, context: ExecutionContext): stri
  * Resolve variable references in a template value.
  * 
  * Supports:
- * - "$env.VAR_NAME" → process.env.VAR_NAME (server-side only)
+ * - "$env.VAR_NAME" → process.env.VAR_NAME (server-side only; with an env
+ *   policy on the context, it must be declared in metadata.env or allowlisted,
+ *   see ./env)
  * - "$input.messages" → context.input.messages
  * - "$stepResult.llmOutput.text" → context.variables.get('llmOutput').text
+ * - "$input.items[-1]", "$input.props['Created At']" → indexed / quoted keys
+ * - "$stepResult.reviews.data[*].starRating" → array of each item's starRating
+ * - "$now", "$now.date", "$uuid", "$run.id", "$agent.name", "$step.id" → built-ins
+ * - "${ $input.name | upper }" → expression result (see ./expression);
+ *   "$${" is a literal "${"
  * - Nested objects/arrays are resolved recursively
  * 
  * @param template - Value to resolve (string, object, array, or primitive)
@@ -112,48 +219,15 @@ export function resolveVariables(template: unknown, context: ExecutionContext):
 
     // Handle string patterns
     if (typeof template === 'string') {
-        // Check if entire string is a single variable reference
-        
-        // Check for $env.* pattern (entire string) - environment variables
-        if (template.startsWith('$env.') && !template.includes(' ') && !template.includes('\n')) {
-            const envVar = template.slice(5); // Remove "$env."
-            return process.env[envVar];
-        }
-
-        // Check for $input.* pattern (entire string)
-        if (template.startsWith('$input.') && !template.includes(' ') && !template.includes('\n')) {
-            const path = template.slice(7); // Remove "$input."
-            return resolvePath(context.input, path);
+        // Expressions: ${ $input.name | upper }
+        if (template.includes('${')) {
+            return resolveTemplate(template, context);
         }
 
-        // Check for $stepResult.* pattern (entire string)
-        if (template.startsWith('$stepResult.') && !template.includes(' ') && !template.includes('\n')) {
-            const fullPath = template.slice(12); // Remove "$stepResult."
-            const dotIndex = fullPath.indexOf('.');
-
-            if (dotIndex === -1) {
-                return context.variables.get(fullPath);
-            }
-
-            const varName = fullPath.slice(0, dotIndex);
-            const restPath = fullPath.slice(dotIndex + 1);
-            const varValue = context.variables.get(varName);
-            return resolvePath(varValue, restPath);
-        }
-
-        // Check for legacy $varName.* pattern (entire string)
-        if (template.startsWith('$') && !template.startsWith('$$') && !template.includes(' ') && !template.includes('\n')) {
-            const fullPath = template.slice(1); // Remove "$"
-            const dotIndex = fullPath.indexOf('.');
-
-            if (dotIndex === -1) {
-                return context.variables.get(fullPath);
-            }
-
-            const varName = fullPath.slice(0, dotIndex);
-            const restPath = fullPath.slice(dotIndex + 1);
-            const varValue = context.variables.get(varName);
-            return resolvePath(varValue, restPath);
+        // Check if entire string is a single variable reference (keeps the value's type)
+        const reference = WHOLE_REFERENCE_PATTERN.exec(template);
+        if (reference) {
+            return resolveReference(reference[1], parsePath(reference[2]), context);
         }
 
         // String interpolation: replace $variable.path patterns within larger strings
@@ -182,3 +256,171 @@ export function resolveVariables(template: unknown, context: ExecutionContext):
     // Primitives (number, boolean) - return as-is
     return template;
 }
+
+/**
+ * A variable reference that does not resolve, and where it was found.
+ */
+export interface UnresolvedReference {
+    /** Path of the value within the inspected template (e.g., "messages[0].content"; '' for the template itself) */
+    key: string;
+    /** The reference as written (e.g., "$input.nmae") */
+    reference: string;
+}
+
+/**
+ * Write a reference back in `$name.path` form (used for references found in expressions).
+ */
+export function formatReference(name: string, path: PathSegment[]): string {
+    return `$${name}` + path.map((segment) => {
+        if (segment === WILDCARD) return '[*]';
+        if (typeof segment === 'number') return `[${segment}]`;
+        return /^[a-zA-Z_][a-zA-Z0-9_]*$/.test(segment) ? `.${segment}` : `['${segment.replace(/['\\]/g, '\\$&')}']`;
+    }).join('');
+}
+
+/**
+ * Append an object key or array index to a key path ("messages" + 0 → "messages[0]").
+ */
+export function appendKey(key: string, segment: string | number): string {
+    if (typeof segment === 'number') return `${key}[${segment}]`;
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(segment)) return `${key}['${segment}']`;
+    return key ? `${key}.${segment}` : segment;
+}
+
+/**
+ * A variable reference found in a template string.
+ */
+export interface TemplateReference {
+    /** Variable name without `$` (e.g., 'stepResult') */
+    name: string;
+    /** Path after the name (for expressions, only the keys known statically) */
+    path: PathSegment[];
+    /** The reference as written (e.g., "$stepResult.draft.text") */
+    reference: string;
+}
+
+/**
+ * List the variable references of a template string without resolving them:
+ * plain references and references inside `${ ... }` expressions.
+ * 
+ * @param invalid - Receives an ExpressionError for each `${` that is left as
+ *   text because it does not parse (see findTemplateExpressions)
+ */
+export function findReferences(template: string, invalid?: ExpressionError[]): TemplateReference[] {
+    const references: TemplateReference[] = [];
+    const addPlain = (text: string): void => {
+        for (const match of text.matchAll(REFERENCE_PATTERN)) {
+            references.push({ name: match[1], path: parsePath(match[2]), reference: match[0] });
+        }
+    };
+
+    let position = 0;
+    for (const expression of template.includes('${') ? findTemplateExpressions(template, invalid) : []) {
+        addPlain(template.slice(position, expression.start));
+        position = expression.end;
+        for (const { name, path } of findExpressionReferences(expression.source)) {
+            references.push({ name, path, reference: formatReference(name, path) });
+        }
+    }
+    addPlain(template.slice(position));
+
+    return references;
+}
+
+/**
+ * Find the unresolved references in a string. References inside expressions
+ * count too, unless the expression gives them a fallback
+ * (`$input.name | default('there')`, `$input.title or 'Untitled'`).
+ */
+function findUnresolvedInString(template: string, context: ExecutionContext, ignore: string[]): string[] {
+    const unresolved: string[] = [];
+    const checkPlain = (text: string): void => {
+        for (const match of text.matchAll(REFERENCE_PATTERN)) {
+            if (!ignore.includes(match[1]) && resolveReference(match[1], parsePath(match[2]), context) === undefined) {
+                unresolved.push(match[0]);
+            }
+        }
+    };
+
+    let position = 0;
+    for (const expression of template.includes('${') ? findTemplateExpressions(template) : []) {
+        checkPlain(template.slice(position, expression.start));
+        position = expression.end;
+
+        for (const { name, path, optional } of findExpressionReferences(expression.source)) {
+            if (!optional && !ignore.includes(name) && resolveReference(name, path, context) === undefined) {
+                unresolved.push(formatReference(name, path));
+            }
+        }
+    }
+
+    checkPlain(template.slice(position));
+    return unresolved;
+}
+
+/**
+ * Find variable references in a template that do not resolve to a value,
+ * with the key path where each one appears. Used by strict mode.
+ * 
+ * @param template - Value to inspect (string, object, array, or primitive)
+ * @param context - Execution context with input and variables
+ * @param ignore - Variable names to skip (e.g., 'json' for steps that set $json themselves)
+ * @returns Unresolved references in template order
+ * @throws ExpressionError if an expression in the template is invalid
+ */
+export function collectUnresolvedReferences(
+    template: unknown,
+    context: ExecutionContext,
+    ignore: string[] = []
+): UnresolvedReference[] {
+    const unresolved: UnresolvedReference[] = [];
+
+    const visit = (value: unknown, key: string): void => {
+        if (typeof value === 'string') {
+            if (!value.includes('$')) return;
+            for (const reference of findUnresolvedInString(value, context, ignore)) {
+                unresolved.push({ key, reference });
+            }
+        } else if (Array.isArray(value)) {
+            value.forEach((item, index) => visit(item, appendKey(key, index)));
+        } else if (typeof value === 'object' && value !== null) {
+            for (const [name, item] of Object.entries(value)) {
+                visit(item, appendKey(key, name));
+            }
+        }
+    };
+
+    visit(template, '');
+    return unresolved;
+}
+
+/**
+ * Find variable references in a template that do not resolve to a value.
+ * Used by dry runs to report missing inputs, step results and env vars.
+ * 
+ * @param template - Value to inspect (string, object, array, or primitive)
+ * @param context - Execution context with input and variables
+ * @returns Unique unresolved references (e.g., "$stepResult.draft.text")
+ */
+export function findUnresolvedReferences(template: unknown, context: ExecutionContext): string[] {
+    return [...new Set(collectUnresolvedReferences(template, context).map(({ reference }) => reference))];
+}
+
+/**
+ * Evaluate a step condition (`if` / `unless`) against the execution context.
+ * 
+ * The expression is resolved with resolveVariables and tested for truthiness:
+ * - undefined, null, false, 0 and empty arrays are falsy
+ * - strings "", "false", "0", "null", "no" and "off" are falsy (case-insensitive)
+ * - everything else is truthy
+ * 
+ * Comparisons and boolean logic use an expression:
+ * `if: "${ $stepResult.reviews.data | length > 0 and $input.notify }"`
+ * 
+ * @param expression - Condition from YAML (e.g., "$stepResult.analysis.isSpam")
+ * @param context - Execution context with input and variables
+ * @returns Whether the condition holds
+ */
+export function evaluateCondition(expression: unknown, context: ExecutionContext): boolean {
+    return isTruthy(resolveVariables(expression, context));
+}
@@ -10,7 +10,30 @@
  *   and that Response is returned immediately to the client.
  * - Non-Response results are stored in context.variables for subsequent steps.
  * - If 'return' is defined in YAML, it shapes the final API response.
- * - When observability is enabled, trace events are collected and attached to results.
+ * - Steps with an `if`/`unless` condition are skipped when it does not hold;
+ *   their `result` variable is set to `{ skipped: true }`.
+ * - Control-flow steps (`foreach`, `parallel`, `switch`) are run by the executor
+ *   itself and execute nested step lists instead of a registered primitive.
+ * - Steps with a `retry` policy are re-run with exponential backoff when they
+ *   fail with a retryable error category.
+ * - `timeout` on a step (per attempt) or in metadata (whole workflow) aborts
+ *   context.signal, cancelling in-flight work, and fails with errorType 'timeout'.
+ * - A failed step runs its `onError` fallback steps and/or stores an error
+ *   result when `continueOnError` is set; otherwise the error propagates and,
+ *   if defined, the YAML 'catch' template shapes the response.
+ * - When observability is enabled, trace events are collected and attached to results;
+ *   each event carries the run ID (`$run.id`).
+ * - With a checkpointStore, run state is saved after each top-level step and
+ *   resume(runId) continues a run after its last completed step.
+ * - In dry-run mode, primitive steps are recorded in a plan (resolved config with
+ *   secrets masked, unresolved references) and their stubbed output is used.
+ * - A top-level step throwing WorkflowSuspendedError (`await-approval`) pauses
+ *   the run; resume(runId, { decision }) continues it with the decision as
+ *   that step's result.
+ * - In strict mode, the agent is linted before the first step and a step fails
+ *   with UnresolvedReferenceError when its config references a missing value.
+ * - `$env.NAME` only reads variables declared in metadata.env or allowlisted;
+ *   values read are masked as `***` in results, traces, plans and errors.
  */
 
 import type { 
@@ -20,28 +43,473 @@ import type {
     StepConfig,
     ObservabilityConfig,
     StepEvent,
-    StepErrorEvent,
+    StepEventBase,
+    StepErrorType,
+    RetryPolicy,
+    StepErrorInfo,
+    PlannedStep,
+    DryRunState,
 } from '../types';
 import { handlerRegistry } from '../primitives';
-import { resolveVariables } from './variable-resolver';
+import { safeJsonParse } from '../primitives/output';
+import {
+    resolveVariables,
+    evaluateCondition,
+    findUnresolvedReferences,
+    collectUnresolvedReferences,
+} from './variable-resolver';
+import { sanitizeErrorType, TimeoutError, UnresolvedReferenceError, WorkflowSuspendedError } from './errors';
+import { lintAgent } from './lint';
+import { EnvAccess, MASK } from './env';
+import type { LintIssue } from './lint';
+import { createRunId } from './checkpoint';
+import type { Checkpoint, CheckpointStore } from './checkpoint';
+import type { AgentRegistry } from './agent-registry';
+
+/**
+ * Options for creating a WorkflowExecutor.
+ */
+export interface WorkflowExecutorOptions {
+    /** Persist run state after each top-level step so runs can be resumed */
+    checkpointStore?: CheckpointStore;
+    /** Keep the checkpoints of completed runs instead of deleting them (default: false) */
+    keepCompletedRuns?: boolean;
+    /** Where `call-agent` steps look up agents (default: agentsPath + built-ins) */
+    agentRegistry?: AgentRegistry;
+    /**
+     * Fail on references to missing values instead of passing them through
+     * (default: false). The agent's `metadata.strict` takes precedence.
+     */
+    strict?: boolean;
+    /** Environment variables every agent may read, in addition to its `metadata.env` */
+    envAllowlist?: string[];
+}
+
+/**
+ * Options for a single WorkflowExecutor.execute() call.
+ */
+export interface ExecuteOptions {
+    /** Cancels the run when aborted (e.g., the incoming request's signal) */
+    signal?: AbortSignal;
+    /** ID for the run's checkpoint. Generated when omitted and a checkpointStore is set */
+    runId?: string;
+    /** ID the agent was requested by, stored in the checkpoint so only that agent resumes the run */
+    agentId?: string;
+    /**
+     * Record each step's resolved config instead of calling primitives.
+     * Returns `{ dryRun: true, plan, output }`; no checkpoints are saved.
+     */
+    dryRun?: boolean;
+    /** Dry run only: step outputs keyed by step ID (default: `{}`) */
+    stubs?: Record<string, unknown>;
+}
+
+/**
+ * Options for a WorkflowExecutor.resume() call.
+ */
+export interface ResumeOptions {
+    /** Cancels the run when aborted (e.g., the incoming request's signal) */
+    signal?: AbortSignal;
+    /** Input for a suspended run's pending step; becomes that step's result */
+    decision?: unknown;
+    /** Agent ID the run must have been started with (ExecuteOptions.agentId) */
+    agentId?: string;
+    /**
+     * Also resume a run that is still marked 'running', e.g. because its
+     * process crashed or restarted mid-step. Only use it when no other
+     * process is executing the run. Default: false
+     */
+    force?: boolean;
+}
+
+/**
+ * Step types handled by the executor rather than the primitive registry.
+ */
+const CONTROL_FLOW_TYPES = ['foreach', 'parallel', 'switch'];
+
+/** Default safety cap for foreach iterations */
+const DEFAULT_MAX_ITERATIONS = 100;
+
+/**
+ * Foreach step configuration from YAML.
+ * 
+ * @example
+ * - id: "draft-replies"
+ *   type: "foreach"
+ *   config:
+ *     items: "$stepResult.reviews.reviews"
+ *     concurrency: 3
+ *     steps:
+ *       - id: "draft"
+ *         type: "llm"
+ *         config:
+ *           messages:
+ *             - role: "user"
+ *               content: "Draft a reply to: $item.comment"
+ *   result: "replies"
+ */
+interface ForeachConfig extends StepConfig {
+    /** Expression resolving to the array to iterate over */
+    items: unknown;
+    /** Steps executed once per element, with $item and $index available */
+    steps: WorkflowStep[];
+    /** Maximum iterations running at the same time (default: 1) */
+    concurrency?: number;
+    /** Fail when the array is longer than this (default: 100) */
+    maxIterations?: number;
+}
+
+/**
+ * Failure policy for parallel groups:
+ * - 'fail-fast': reject as soon as any child step fails
+ * - 'settle-all': wait for every child step, then fail with the first error
+ */
+type ParallelPolicy = 'fail-fast' | 'settle-all';
+
+/**
+ * Parallel step configuration from YAML.
+ * 
+ * @example
+ * - id: "analyze"
+ *   type: "parallel"
+ *   config:
+ *     policy: "settle-all"
+ *     steps:
+ *       - id: "extract-entities"
+ *         type: "llm"
+ *         config: { ... }
+ *         result: "entities"
+ *       - id: "classify-sentiment"
+ *         type: "llm"
+ *         config: { ... }
+ *         result: "sentiment"
+ */
+interface ParallelConfig extends StepConfig {
+    /** Steps executed concurrently; their results are stored as usual */
+    steps: WorkflowStep[];
+    /** Failure policy (default: 'fail-fast') */
+    policy?: ParallelPolicy;
+}
+
+/**
+ * Switch step configuration from YAML.
+ * 
+ * @example
+ * - id: "route"
+ *   type: "switch"
+ *   config:
+ *     json: "$stepResult.classification.text"
+ *     value: "$json.category"
+ *     cases:
+ *       billing:
+ *         - id: "billing-reply"
+ *           type: "llm"
+ *           config: { ... }
+ *       bug:
+ *         - id: "bug-report"
+ *           type: "notion"
+ *           config: { ... }
+ *     default:
+ *       - id: "generic-reply"
+ *         type: "llm"
+ *         config: { ... }
+ *   result: "routed"
+ */
+interface SwitchConfig extends StepConfig {
+    /** Expression whose value selects the case (compared as a string) */
+    value: unknown;
+    /**
+     * Optional: parse JSON from a variable reference (e.g., llm text output)
+     * before evaluating `value`. The parsed JSON is available as $json.*
+     */
+    json?: string;
+    /** Step lists keyed by case value */
+    cases?: Record<string, WorkflowStep[]>;
+    /** Steps run when no case matches */
+    default?: WorkflowStep[];
+}
+
+/**
+ * Location of a step in the (possibly nested) pipeline, used for trace events.
+ */
+interface StepPosition {
+    stepIndex: number;
+    totalSteps: number;
+    parentStepId?: string;
+    iteration?: number;
+}
+
+/**
+ * Nesting information passed down when running a nested step list.
+ */
+type StepScope = Pick<StepPosition, 'parentStepId' | 'iteration'>;
+
+/**
+ * Outcome of running a list of steps.
+ * `response` is set when a step streamed; otherwise `lastResult` holds
+ * the output of the last step that ran.
+ */
+interface RunOutcome {
+    response?: Response;
+    lastResult: unknown;
+}
+
+/**
+ * Checkpoint of the current run and the store it is saved to.
+ */
+interface RunState {
+    store: CheckpointStore;
+    checkpoint: Checkpoint;
+}
+
+/** Marker returned by runStep for steps skipped by their condition */
+const SKIPPED = Symbol('skipped');
+
+/** Error categories retried when a policy does not list its own */
+const DEFAULT_RETRY_ON: StepErrorType[] = ['timeout', 'network', 'rate_limited', 'server_error'];
+
+/**
+ * Retry policy with defaults applied and YAML strings converted.
+ */
+interface ResolvedRetryPolicy {
+    maxAttempts: number;
+    backoff: number;
+    jitter: boolean;
+    retryOn: StepErrorType[];
+}
+
+/**
+ * ID of the innermost step each propagating error came from.
+ * Lets `$error.stepId` name the failing step even when the error is rethrown
+ * by an enclosing foreach/parallel step.
+ */
+const failedStepIds = new WeakMap<object, string>();
+
+/**
+ * Build the `$error` value for onError steps and the catch template.
+ */
+function toErrorInfo(error: unknown, stepId: string): StepErrorInfo {
+    const failedStepId = typeof error === 'object' && error !== null ? failedStepIds.get(error) : undefined;
+    return {
+        type: sanitizeErrorType(error),
+        stepId: failedStepId || stepId,
+        message: error instanceof Error ? error.message : String(error),
+    };
+}
+
+/**
+ * Read an optional numeric setting, falling back when it is not set.
+ */
+function toNumber(value: unknown, fallback: number): number {
+    return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * Apply defaults to a step's retry policy.
+ * Returns null when the step has no retry policy.
+ */
+function resolveRetryPolicy(retry: RetryPolicy | undefined): ResolvedRetryPolicy | null {
+    if (!retry) {
+        return null;
+    }
+    return {
+        maxAttempts: Math.max(1, Math.floor(toNumber(retry.maxAttempts, 3))),
+        backoff: Math.max(0, toNumber(retry.backoff, 500)),
+        jitter: retry.jitter !== false,
+        retryOn: retry.retryOn && retry.retryOn.length > 0 ? retry.retryOn : DEFAULT_RETRY_ON,
+    };
+}
+
+/**
+ * Compute the delay before the attempt following `attempt` (one-based).
+ */
+function getRetryDelay(policy: ResolvedRetryPolicy, attempt: number): number {
+    const delay = policy.backoff * 2 ** (attempt - 1);
+    return Math.round(policy.jitter ? delay * (0.5 + Math.random() * 0.5) : delay);
+}
+
+/**
+ * Detect failures reported as data instead of thrown.
+ * Primitives such as notion and google-business return `{ success: false, error }`
+ * for API errors; with a retry policy those are classified and retried too.
+ */
+function getReportedFailure(result: unknown): Error | null {
+    if (typeof result !== 'object' || result === null || result instanceof Response) {
+        return null;
+    }
+    const { success, error } = result as { success?: unknown; error?: unknown };
+    if (success !== false) {
+        return null;
+    }
+    return new Error(typeof error === 'string' ? error : 'Step reported failure');
+}
+
+/**
+ * Wait for `ms` milliseconds, rejecting early if the signal aborts.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return raceWithSignal(new Promise(resolve => setTimeout(resolve, ms)), signal);
+}
+
+/**
+ * Settle with the promise, or reject with the signal's reason as soon as it aborts.
+ * Primitives receive the same signal, so the losing work is cancelled rather than leaked.
+ */
+function raceWithSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+        return promise;
+    }
+    if (signal.aborted) {
+        return Promise.reject(signal.reason);
+    }
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(signal.reason);
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
+
+/**
+ * Call `onEnd` once a streaming response's body is fully read (`true`), or
+ * fails or is cancelled (`false`).
+ */
+function onResponseEnd(response: Response, onEnd: (completed: boolean) => void): Response {
+    if (!response.body) {
+        onEnd(true);
+        return response;
+    }
+
+    const reader = response.body.getReader();
+    const body = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            try {
+                const { done, value } = await reader.read();
+                if (done) {
+                    controller.close();
+                    onEnd(true);
+                } else {
+                    controller.enqueue(value);
+                }
+            } catch (error) {
+                controller.error(error);
+                onEnd(false);
+            }
+        },
+        cancel(reason) {
+            onEnd(false);
+            return reader.cancel(reason);
+        },
+    });
+    return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+}
+
+/**
+ * Create a signal that aborts with a TimeoutError after `ms`, or when the parent aborts.
+ * The timer is unref'd so a pending timeout never keeps the process alive.
+ */
+function createTimeoutSignal(
+    ms: number,
+    message: string,
+    parent?: AbortSignal
+): { signal: AbortSignal; clear: () => void } {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(new TimeoutError(message)), ms);
+    timer.unref?.();
+    return {
+        signal: parent ? AbortSignal.any([parent, controller.signal]) : controller.signal,
+        clear: () => clearTimeout(timer),
+    };
+}
+
+/**
+ * Create a signal for a group of sibling steps: it aborts when the parent
+ * aborts, or when abort() is called after one sibling fails.
+ */
+function createSiblingSignal(parent?: AbortSignal): { signal: AbortSignal; abort: (reason: unknown) => void } {
+    const controller = new AbortController();
+    return {
+        signal: parent ? AbortSignal.any([parent, controller.signal]) : controller.signal,
+        abort: (reason) => controller.abort(reason),
+    };
+}
+
+/** Config keys whose values are masked in dry-run plans */
+const SECRET_KEY_PATTERN = /api[-_]?key|token$|secret|password|authorization|credential/i;
+
+/**
+ * Mask secrets in a resolved config for dry-run plans.
+ * Masks values under secret-looking keys and values resolved from `$env.*`.
+ * 
+ * @param template - Config as written in YAML
+ * @param resolved - Same config after variable resolution
+ */
+function maskSecrets(template: unknown, resolved: unknown): unknown {
+    if (typeof template === 'string') {
+        return template.includes('$env.') && resolved !== undefined ? MASK : resolved;
+    }
+    if (Array.isArray(template) && Array.isArray(resolved)) {
+        return resolved.map((value, i) => maskSecrets(template[i], value));
+    }
+    if (typeof template === 'object' && template !== null && typeof resolved === 'object' && resolved !== null) {
+        const masked: Record<string, unknown> = {};
+        for (const [key, value] of Object.entries(resolved)) {
+            masked[key] = SECRET_KEY_PATTERN.test(key) && value !== undefined
+                ? MASK
+                : maskSecrets((template as Record<string, unknown>)[key], value);
+        }
+        return masked;
+    }
+    return resolved;
+}
+
+/**
+ * Wrap primitives and arrays in an object so they can be returned as a Record.
+ */
+function toRecord(value: unknown): Record<string, unknown> {
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+        return value as Record<string, unknown>;
+    }
+    return { value };
+}
 
 export class WorkflowExecutor {
     private steps: WorkflowStep[];
     private returnTemplate?: unknown;
+    private catchTemplate?: unknown;
     private observabilityEnabled: boolean;
+    private timeout: number;
+    private name: string;
+    private version: string;
+    private checkpointStore?: CheckpointStore;
+    private keepCompletedRuns: boolean;
+    private agentRegistry?: AgentRegistry;
+    private strict: boolean;
+    private lintIssues: LintIssue[];
+    private envAllowlist: string[];
+    private declaredEnv: string[];
 
     /**
      * Create a new WorkflowExecutor from parsed YAML.
      * @param yaml - Parsed YAML document containing workflow steps
+     * @param options - Optional checkpoint store, agent registry, strict mode and env allowlist
      */
-    constructor(yaml: ParsedYaml) {
+    constructor(yaml: ParsedYaml, options: WorkflowExecutorOptions = {}) {
         this.steps = yaml.workflow;
+        this.name = yaml.metadata.name;
+        this.version = yaml.metadata.version;
+        this.checkpointStore = options.checkpointStore;
+        this.keepCompletedRuns = options.keepCompletedRuns ?? false;
+        this.agentRegistry = options.agentRegistry;
         this.returnTemplate = yaml.return;
+        this.catchTemplate = yaml.catch;
         // Type assertion to access observability from metadata
         const metadata = yaml.metadata as { observability?: ObservabilityConfig };
-        // FAILSAFE_SCHEMA parses booleans as strings, so check for both
-        const enabled = metadata.observability?.enabled as unknown;
-        this.observabilityEnabled = enabled === true || enabled === 'true';
+        this.observabilityEnabled = metadata.observability?.enabled === true;
+        this.timeout = toNumber(yaml.metadata.timeout, 0);
+        this.strict = yaml.metadata.strict ?? options.strict ?? false;
+        this.lintIssues = this.strict ? lintAgent(yaml) : [];
+        this.envAllowlist = options.envAllowlist ?? [];
+        this.declaredEnv = yaml.metadata.env ?? [];
     }
 
     /**
@@ -51,32 +519,641 @@ export class WorkflowExecutor {
     private pushEvent(context: ExecutionContext, event: StepEvent): void {
         if (!context.trace) return;
         try {
-            context.trace.push(event);
+            context.trace.push(context.runId ? { ...event, runId: context.runId } : event);
         } catch (err) {
             console.warn('[Beddel Observability] Failed to push event:', err);
         }
     }
 
     /**
-     * Sanitize error into a safe error type category.
-     * SECURITY: Never exposes full error messages, only categorized types.
+     * Build the fields shared by all trace events for a step.
+     * Nesting fields are only included for steps inside a control-flow step.
      */
-    private sanitizeErrorType(error: unknown): StepErrorEvent['errorType'] {
-        if (error instanceof Error) {
-            const msg = error.message.toLowerCase();
-            const name = error.name.toLowerCase();
-            if (msg.includes('timeout') || name.includes('timeout')) return 'timeout';
-            if (msg.includes('auth') || msg.includes('unauthorized')) return 'auth_failed';
-            if (msg.includes('valid') || name.includes('validation')) return 'validation';
-            if (msg.includes('network') || msg.includes('econnrefused')) return 'network';
+    private eventBase(
+        step: WorkflowStep,
+        position: StepPosition,
+        attempt?: number
+    ): Omit<StepEventBase, 'type'> {
+        const base: Omit<StepEventBase, 'type'> = {
+            stepId: step.id,
+            stepType: step.type,
+            stepIndex: position.stepIndex,
+            totalSteps: position.totalSteps,
+            timestamp: Date.now(),
+        };
+        if (position.parentStepId !== undefined) base.parentStepId = position.parentStepId;
+        if (position.iteration !== undefined) base.iteration = position.iteration;
+        if (attempt !== undefined) base.attempt = attempt;
+        return base;
+    }
+
+    /**
+     * Check a step's `if`/`unless` conditions.
+     * @returns The condition that caused the skip, or null if the step should run
+     */
+    private getSkipReason(step: WorkflowStep, context: ExecutionContext): 'if' | 'unless' | null {
+        if (step.if !== undefined && !evaluateCondition(step.if, context)) {
+            return 'if';
+        }
+        if (step.unless !== undefined && evaluateCondition(step.unless, context)) {
+            return 'unless';
         }
-        return 'unknown';
+        return null;
+    }
+
+    /**
+     * Run a list of steps sequentially against the given context.
+     * Stops early and returns the Response if a step streams.
+     */
+    private async runSteps(
+        steps: WorkflowStep[],
+        context: ExecutionContext,
+        scope: StepScope = {},
+        run?: RunState
+    ): Promise<RunOutcome> {
+        let lastResult: unknown = run ? run.checkpoint.lastResult : null;
+
+        for (let i = 0; i < steps.length; i++) {
+            // Resumed runs skip the steps their checkpoint already completed
+            if (run && run.checkpoint.completedSteps.includes(steps[i].id)) {
+                continue;
+            }
+
+            const output = await this.runStep(steps[i], context, {
+                stepIndex: i,
+                totalSteps: steps.length,
+                ...scope,
+            });
+
+            // CRITICAL: If handler returns Response (streaming), return immediately
+            if (output instanceof Response) {
+                return { response: output, lastResult };
+            }
+
+            if (output !== SKIPPED) {
+                lastResult = output;
+            }
+
+            if (run) {
+                run.checkpoint.completedSteps.push(steps[i].id);
+                run.checkpoint.lastResult = lastResult;
+                await this.saveCheckpoint(run, context);
+            }
+        }
+
+        return { lastResult };
+    }
+
+    /**
+     * Run a single step: evaluate its conditions, emit trace events,
+     * invoke it and store its result.
+     */
+    private async runStep(
+        step: WorkflowStep,
+        context: ExecutionContext,
+        position: StepPosition
+    ): Promise<unknown> {
+        // $step refers to the step being run; variables stay shared
+        context = { ...context, step: { id: step.id, type: step.type } };
+
+        if (!handlerRegistry[step.type] && !CONTROL_FLOW_TYPES.includes(step.type)) {
+            throw new Error(
+                `[Beddel] Unknown step type: "${step.type}" in step "${step.id}". ` +
+                `Registered types: ${Object.keys(handlerRegistry).join(', ') || '(none)'}`
+            );
+        }
+
+        // Evaluate if/unless before running the step
+        const skipReason = this.getSkipReason(step, context);
+        if (skipReason) {
+            this.pushEvent(context, {
+                type: 'step-skip',
+                ...this.eventBase(step, position),
+                reason: skipReason,
+            });
+
+            if (context.dryRun) {
+                context.dryRun.plan.push({ ...this.planBase(step, position), skipped: skipReason });
+            }
+
+            // Skipped steps still define their result so later steps can test it
+            if (step.result) {
+                context.variables.set(step.result, { skipped: true });
+            }
+            return SKIPPED;
+        }
+
+        const retry = resolveRetryPolicy(step.retry);
+        const maxAttempts = retry ? retry.maxAttempts : 1;
+        const stepTimeout = toNumber(step.timeout, 0);
+
+        for (let attempt = 1; ; attempt++) {
+            // Attempt numbers are only traced for steps with a retry policy
+            const tracedAttempt = retry ? attempt : undefined;
+
+            // Emit step-start event
+            this.pushEvent(context, {
+                type: 'step-start',
+                ...this.eventBase(step, position, tracedAttempt),
+            });
+
+            // Each attempt gets its own timeout, linked to the workflow's signal
+            const timeout = stepTimeout > 0
+                ? createTimeoutSignal(stepTimeout, `[Beddel] Step "${step.id}" timeout (${stepTimeout}ms)`, context.signal)
+                : null;
+            const stepContext: ExecutionContext = {
+                ...context,
+                ...(timeout && { signal: timeout.signal }),
+                onModelFallback: ({ from, to, errorType }) => this.pushEvent(context, {
+                    type: 'step-fallback',
+                    ...this.eventBase(step, position, tracedAttempt),
+                    errorType,
+                    failedProvider: from.provider,
+                    failedModel: from.model,
+                    provider: to.provider,
+                    model: to.model,
+                }),
+            };
+
+            const startTime = Date.now();
+            let result: unknown;
+            let failure: unknown = null;
+            let thrown = false;
+
+            try {
+                result = await raceWithSignal(this.invokeStep(step, stepContext, position), stepContext.signal);
+            } catch (error) {
+                failure = error;
+                thrown = true;
+            } finally {
+                // Streaming responses stay bound to the timeout until the stream ends
+                if (!(result instanceof Response)) {
+                    timeout?.clear();
+                }
+            }
+
+            const duration = Date.now() - startTime;
+
+            // Suspending skips retries and error handling; the run is resumed later
+            if (failure instanceof WorkflowSuspendedError) {
+                if (position.parentStepId === undefined) {
+                    failure.stepId = step.id;
+                    throw failure;
+                }
+                failure = new Error(
+                    `[Beddel] Step "${step.id}" (${step.type}) can only suspend a run as a top-level step`
+                );
+            }
+
+            // Failures reported as { success: false } are retried, but never thrown
+            if (!thrown && retry && attempt < maxAttempts) {
+                failure = getReportedFailure(result);
+            }
+
+            if (failure) {
+                const errorType = sanitizeErrorType(failure);
+
+                if (retry && attempt < maxAttempts && retry.retryOn.includes(errorType)) {
+                    const delay = getRetryDelay(retry, attempt);
+                    this.pushEvent(context, {
+                        type: 'step-retry',
+                        ...this.eventBase(step, position, tracedAttempt),
+                        duration,
+                        errorType,
+                        delay,
+                    });
+                    try {
+                        await sleep(delay, context.signal);
+                        continue;
+                    } catch (error) {
+                        // An abort during the backoff fails the step like a failed attempt
+                        failure = error;
+                        thrown = true;
+                    }
+                }
+
+                if (thrown) {
+                    // Emit step-error event
+                    this.pushEvent(context, {
+                        type: 'step-error',
+                        ...this.eventBase(step, position, tracedAttempt),
+                        duration,
+                        errorType: sanitizeErrorType(failure),
+                    });
+
+                    if (typeof failure === 'object' && failure !== null && !failedStepIds.has(failure)) {
+                        failedStepIds.set(failure, step.id);
+                    }
+                    return this.recoverFromError(step, context, failure);
+                }
+            }
+
+            // Emit step-complete event
+            this.pushEvent(context, {
+                type: 'step-complete',
+                ...this.eventBase(step, position, tracedAttempt),
+                duration,
+            });
+
+            // Note: Streaming responses don't include trace (they're streamed directly)
+            if (result instanceof Response) {
+                return result;
+            }
+
+            // Failures reported as { success: false } also trigger onError fallbacks
+            const reportedFailure = step.onError ? getReportedFailure(result) : null;
+            if (reportedFailure) {
+                failedStepIds.set(reportedFailure, step.id);
+                return this.recoverFromError(step, context, reportedFailure);
+            }
+
+            // Store result for subsequent steps (if step.result is defined)
+            if (step.result) {
+                context.variables.set(step.result, result);
+            }
+
+            return result;
+        }
+    }
+
+    /**
+     * Handle a step's final failure (after retries).
+     * 
+     * Runs the `onError` fallback steps, if any, with `$error` available; their
+     * last output becomes the step result. If there is no fallback (or it fails
+     * too) and `continueOnError` is set, `{ error: StepErrorInfo }` is stored as
+     * the step result. Otherwise the error is rethrown.
+     */
+    private async recoverFromError(
+        step: WorkflowStep,
+        context: ExecutionContext,
+        error: unknown
+    ): Promise<unknown> {
+        let failure = error;
+
+        if (step.onError && step.onError.length > 0) {
+            // Fallback steps get their own variables so $error never leaks
+            const fallbackContext: ExecutionContext = {
+                ...context,
+                variables: new Map(context.variables),
+            };
+            fallbackContext.variables.set('error', toErrorInfo(error, step.id));
+
+            try {
+                const outcome = await this.runSteps(step.onError, fallbackContext, {
+                    parentStepId: step.id,
+                });
+                if (outcome.response) {
+                    return outcome.response;
+                }
+                if (step.result) {
+                    context.variables.set(step.result, outcome.lastResult);
+                }
+                return outcome.lastResult;
+            } catch (fallbackError) {
+                failure = fallbackError;
+            }
+        }
+
+        if (step.continueOnError === true) {
+            const result = { error: toErrorInfo(failure, step.id) };
+            if (step.result) {
+                context.variables.set(step.result, result);
+            }
+            return result;
+        }
+
+        throw failure;
+    }
+
+    /**
+     * Dispatch a step to its control-flow implementation or registered primitive.
+     */
+    private async invokeStep(
+        step: WorkflowStep,
+        context: ExecutionContext,
+        position: StepPosition
+    ): Promise<unknown> {
+        // Dry runs report unresolved references in the plan instead
+        if (this.strict && !context.dryRun) {
+            this.checkReferences(step, context);
+        }
+
+        if (step.type === 'foreach') {
+            return this.runForeach(step, context, position);
+        }
+        if (step.type === 'parallel') {
+            return this.runParallel(step, context);
+        }
+        if (step.type === 'switch') {
+            return this.runSwitch(step, context, position);
+        }
+
+        if (context.dryRun) {
+            return this.planStep(step, context, position, context.dryRun);
+        }
+
+        // Execute the handler with step config and context
+        const handler = handlerRegistry[step.type];
+        return handler(step.config as StepConfig, context);
+    }
+
+    /**
+     * Strict mode: fail the step if its config references a missing value.
+     * 
+     * Control-flow steps only check their own keys (nested steps are checked
+     * when they run), and `$json` is not checked for steps that set it from
+     * their `json` key. Conditions are never checked: testing for a missing
+     * value is what they are for.
+     * 
+     * @throws UnresolvedReferenceError for the first unresolved reference
+     */
+    private checkReferences(step: WorkflowStep, context: ExecutionContext): void {
+        const config = (step.config ?? {}) as StepConfig;
+        let template: Record<string, unknown> = config;
+
+        if (step.type === 'parallel') {
+            return;
+        }
+        if (step.type === 'foreach') {
+            template = { items: config.items };
+        } else if (step.type === 'switch') {
+            template = { json: config.json, value: config.value };
+        }
+
+        const ignore = config.json !== undefined ? ['json'] : [];
+        const [unresolved] = collectUnresolvedReferences(template, context, ignore);
+        if (unresolved) {
+            throw new UnresolvedReferenceError(step.id, `config.${unresolved.key}`, unresolved.reference);
+        }
+    }
+
+    /**
+     * Build the identifying fields of a dry-run plan entry.
+     */
+    private planBase(step: WorkflowStep, position: StepPosition): PlannedStep {
+        const planned: PlannedStep = { stepId: step.id, type: step.type };
+        if (position.parentStepId !== undefined) planned.parentStepId = position.parentStepId;
+        if (position.iteration !== undefined) planned.iteration = position.iteration;
+
+        const lint = this.lintIssues
+            .filter((issue) => issue.stepId === step.id)
+            .map((issue) => `${issue.key}: ${issue.message}`);
+        if (lint.length > 0) planned.lint = lint;
+        return planned;
+    }
+
+    /**
+     * Dry run: record what a primitive step would receive and return its stub.
+     */
+    private planStep(
+        step: WorkflowStep,
+        context: ExecutionContext,
+        position: StepPosition,
+        dryRun: DryRunState
+    ): unknown {
+        const resolved = resolveVariables(step.config, context);
+        const planned = this.planBase(step, position);
+        planned.config = maskSecrets(step.config, resolved) as StepConfig;
+        if (context.env) {
+            planned.config = context.env.mask(planned.config);
+        }
+
+        const unresolved = findUnresolvedReferences(step.config, context);
+        if (unresolved.length > 0) {
+            planned.unresolved = unresolved;
+        }
+        dryRun.plan.push(planned);
+
+        return Object.prototype.hasOwnProperty.call(dryRun.stubs, step.id) ? dryRun.stubs[step.id] : {};
+    }
+
+    /**
+     * Run a foreach step: execute its nested steps once per array element.
+     * 
+     * Each iteration gets its own copy of the variables with `item` and
+     * `index` set, so nested results never leak between iterations or into
+     * the parent pipeline. The iteration's value is the output of its last
+     * nested step; the step result is the array of those values, in order.
+     */
+    private async runForeach(
+        step: WorkflowStep,
+        context: ExecutionContext,
+        position: StepPosition
+    ): Promise<unknown[]> {
+        const config = step.config as ForeachConfig;
+        const items = resolveVariables(config.items, context);
+
+        if (!Array.isArray(items)) {
+            throw new Error(`[Beddel] foreach step "${step.id}": items must resolve to an array`);
+        }
+
+        const maxIterations = toNumber(config.maxIterations, DEFAULT_MAX_ITERATIONS);
+        if (items.length > maxIterations) {
+            throw new Error(
+                `[Beddel] foreach step "${step.id}": ${items.length} items exceed maxIterations (${maxIterations})`
+            );
+        }
+
+        const nestedSteps = config.steps || [];
+        const concurrency = Math.max(1, Math.floor(toNumber(config.concurrency, 1)));
+        const results: unknown[] = new Array(items.length).fill(null);
+        let nextIndex = 0;
+        let failed = false;
+        // Cancels in-flight iterations once one fails
+        const siblings = createSiblingSignal(context.signal);
+
+        const worker = async (): Promise<void> => {
+            while (!failed && nextIndex < items.length) {
+                const index = nextIndex++;
+                const iterationContext: ExecutionContext = {
+                    ...context,
+                    variables: new Map(context.variables),
+                    signal: siblings.signal,
+                };
+                iterationContext.variables.set('item', items[index]);
+                iterationContext.variables.set('index', index);
+
+                try {
+                    const outcome = await this.runSteps(nestedSteps, iterationContext, {
+                        parentStepId: step.id,
+                        iteration: index,
+                    });
+                    if (outcome.response) {
+                        throw new Error(
+                            `[Beddel] foreach step "${step.id}": streaming steps are not supported inside foreach`
+                        );
+                    }
+                    results[index] = outcome.lastResult;
+                } catch (error) {
+                    if (!failed) {
+                        failed = true;
+                        siblings.abort(error);
+                    }
+                    throw error;
+                }
+            }
+        };
+
+        const workerCount = Math.min(concurrency, items.length);
+        await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+        return results;
+    }
+
+    /**
+     * Run a parallel step: execute its child steps concurrently.
+     * 
+     * Children share the parent context, so each child's `result` is joined
+     * into context.variables exactly as for sequential steps. The step's own
+     * output maps each child step ID to that child's output.
+     */
+    private async runParallel(
+        step: WorkflowStep,
+        context: ExecutionContext
+    ): Promise<Record<string, unknown>> {
+        const config = step.config as ParallelConfig;
+        const children = config.steps || [];
+        const policy = config.policy || 'fail-fast';
+
+        if (policy !== 'fail-fast' && policy !== 'settle-all') {
+            throw new Error(
+                `[Beddel] parallel step "${step.id}": invalid policy "${policy}". Use 'fail-fast' or 'settle-all'`
+            );
+        }
+
+        // Under fail-fast, the first failure cancels the children still running
+        const siblings = createSiblingSignal(context.signal);
+        const childContext: ExecutionContext =
+            policy === 'fail-fast' ? { ...context, signal: siblings.signal } : context;
+
+        const runChild = async (child: WorkflowStep, index: number): Promise<unknown> => {
+            const output = await this.runStep(child, childContext, {
+                stepIndex: index,
+                totalSteps: children.length,
+                parentStepId: step.id,
+            });
+            if (output instanceof Response) {
+                throw new Error(
+                    `[Beddel] parallel step "${step.id}": streaming steps are not supported inside parallel`
+                );
+            }
+            return output === SKIPPED ? { skipped: true } : output;
+        };
+
+        const pending = children.map(runChild);
+        let outputs: unknown[];
+
+        if (policy === 'settle-all') {
+            const settled = await Promise.allSettled(pending);
+            const rejected = settled.find(
+                (outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected'
+            );
+            if (rejected) {
+                throw rejected.reason;
+            }
+            outputs = settled.map(outcome => (outcome as PromiseFulfilledResult<unknown>).value);
+        } else {
+            outputs = await Promise.all(pending).catch((error: unknown) => {
+                siblings.abort(error);
+                throw error;
+            });
+        }
+
+        const results: Record<string, unknown> = {};
+        children.forEach((child, index) => {
+            results[child.id] = outputs[index];
+        });
+        return results;
+    }
+
+    /**
+     * Run a switch step: evaluate `value` and run the matching case's steps.
+     * 
+     * Branch steps share the parent context, so their results are available
+     * to later steps. The step's output is the output of the branch's last
+     * step, or null when no case matches and there is no default.
+     */
+    private async runSwitch(
+        step: WorkflowStep,
+        context: ExecutionContext,
+        position: StepPosition
+    ): Promise<unknown> {
+        const config = step.config as SwitchConfig;
+
+        // Same $json semantics as the output-generator primitive
+        if (config.json) {
+            const jsonSource = resolveVariables(config.json, context);
+            if (typeof jsonSource === 'string') {
+                const parseResult = safeJsonParse(jsonSource);
+                if (!parseResult.success) {
+                    console.warn(`[Beddel] switch step "${step.id}": JSON parse failed - ${parseResult.error}`);
+                }
+                context.variables.set('json', parseResult.success ? parseResult.data : {});
+            } else {
+                context.variables.set('json', typeof jsonSource === 'object' && jsonSource !== null ? jsonSource : {});
+            }
+        }
+
+        const value = resolveVariables(config.value, context);
+        const key = value === undefined || value === null ? '' : String(value).trim();
+        const cases = config.cases || {};
+
+        let branch: string | null = null;
+        let branchSteps: WorkflowStep[] | undefined;
+        if (Object.prototype.hasOwnProperty.call(cases, key)) {
+            branch = key;
+            branchSteps = cases[key];
+        } else if (config.default) {
+            branch = 'default';
+            branchSteps = config.default;
+        }
+
+        // Record the chosen branch in the trace
+        this.pushEvent(context, {
+            type: 'step-branch',
+            ...this.eventBase(step, position),
+            branch,
+        });
+
+        if (!branchSteps) {
+            return null;
+        }
+
+        const outcome = await this.runSteps(branchSteps, context, { parentStepId: step.id });
+        return outcome.response || outcome.lastResult;
+    }
+
+    /**
+     * Save the run's variables and progress to its checkpoint store.
+     */
+    /**
+     * Finish a checkpointed run. Completed runs cannot be resumed, so their
+     * checkpoint is deleted unless keepCompletedRuns is set.
+     */
+    private async completeRun(run: RunState, context: ExecutionContext): Promise<void> {
+        if (!this.keepCompletedRuns) {
+            await run.store.delete(run.checkpoint.runId);
+            return;
+        }
+        run.checkpoint.status = 'completed';
+        await this.saveCheckpoint(run, context);
+    }
+
+    private async saveCheckpoint(run: RunState, context: ExecutionContext): Promise<void> {
+        run.checkpoint.variables = Object.fromEntries(context.variables);
+        if (context.env) {
+            run.checkpoint.env = context.env.readNames();
+        }
+        run.checkpoint.updatedAt = Date.now();
+        await run.store.save(run.checkpoint);
     }
 
     /**
      * Execute the workflow pipeline.
      * 
      * @param input - Input data (e.g., { messages: [...] } for chat)
+     * @param options - Optional cancellation signal, checkpoint runId, and dry-run settings
      * @returns Response if streaming, last step result if no 'result' key, or accumulated variables object
      * 
      * @example
@@ -89,114 +1166,256 @@ export class WorkflowExecutor {
      * return Response.json(result);
      * ```
      */
-    async execute(input: unknown): Promise<Response | Record<string, unknown>> {
+    async execute(input: unknown, options: ExecuteOptions = {}): Promise<Response | Record<string, unknown>> {
+        if (options.dryRun) {
+            const dryRun: DryRunState = { plan: [], stubs: options.stubs || {} };
+            const output = await this.run(input, new Map(), options.signal, undefined, dryRun);
+            return { dryRun: true, plan: dryRun.plan, output };
+        }
+
+        let run: RunState | undefined;
+        if (this.checkpointStore) {
+            run = {
+                store: this.checkpointStore,
+                checkpoint: {
+                    runId: options.runId || createRunId(),
+                    workflow: this.name,
+                    ...(options.agentId !== undefined && { agentId: options.agentId }),
+                    input,
+                    variables: {},
+                    completedSteps: [],
+                    lastResult: null,
+                    status: 'running',
+                    updatedAt: Date.now(),
+                },
+            };
+            // Saved up front so a run that crashes in its first step can be resumed (with `force`)
+            await run.store.save(run.checkpoint);
+        }
+
+        return this.run(input, new Map(), options.signal, run);
+    }
+
+    /**
+     * Resume a checkpointed run after its last completed top-level step.
+     * 
+     * Restores the run's input and variables, skips completed steps and
+     * executes the rest. Failed and suspended runs can be resumed, and with
+     * `options.force` a run left 'running' by a crashed process. A suspended
+     * run requires `options.decision`, which is stored as the pending step's result.
+     * 
+     * @param runId - ID of the run (from ExecuteOptions.runId, the result's __runId
+     *   or WorkflowSuspendedError.runId)
+     * @param options - Optional cancellation signal and decision for a suspended run
+     * @throws Error if no checkpointStore is configured, no checkpoint exists,
+     *   the run is completed (or running, without force), or the decision does not match the run's state
+     * 
+     * @example
+     * ```typescript
+     * const executor = new WorkflowExecutor(yaml, { checkpointStore });
+     * try {
+     *   await executor.execute(input, { runId });
+     * } catch {
+     *   // Later, after fixing the cause:
+     *   const result = await executor.resume(runId);
+     *   // After a crash, the run is still marked 'running':
+     *   // await executor.resume(runId, { force: true });
+     * }
+     * ```
+     */
+    async resume(runId: string, options: ResumeOptions = {}): Promise<Response | Record<string, unknown>> {
+        if (!this.checkpointStore) {
+            throw new Error('[Beddel] resume() requires a checkpointStore');
+        }
+
+        const loaded = await this.checkpointStore.load(runId);
+        if (!loaded) {
+            throw new Error(`[Beddel] No checkpoint found for run: ${runId}`);
+        }
+        if (loaded.workflow !== this.name) {
+            throw new Error(
+                `[Beddel] Run "${runId}" belongs to workflow "${loaded.workflow}", not "${this.name}"`
+            );
+        }
+        if (options.agentId !== undefined && loaded.agentId !== options.agentId) {
+            throw new Error(`[Beddel] Run "${runId}" was not started by agent "${options.agentId}"`);
+        }
+        if (loaded.status === 'running' && !options.force) {
+            throw new Error(
+                `[Beddel] Run "${runId}" is running; if its process stopped, resume it with { force: true }`
+            );
+        }
+        if (loaded.status === 'completed') {
+            throw new Error(`[Beddel] Run "${runId}" is completed and cannot be resumed`);
+        }
+        if (loaded.pending && options.decision === undefined) {
+            throw new Error(
+                `[Beddel] Run "${runId}" is waiting for input at step "${loaded.pending.stepId}"; supply a decision to resume it`
+            );
+        }
+        if (!loaded.pending && options.decision !== undefined) {
+            throw new Error(`[Beddel] Run "${runId}" is not waiting for input`);
+        }
+
+        // Claim the run as loaded, so concurrent resumes cannot execute its steps twice
+        const checkpoint = await this.checkpointStore.claim(runId, [loaded.status], loaded.updatedAt);
+        if (!checkpoint) {
+            throw new Error(`[Beddel] Run "${runId}" is already being resumed`);
+        }
+
+        const { pending } = checkpoint;
+        if (pending) {
+            // The decision completes the pending step
+            const step = this.steps.find((s) => s.id === pending.stepId);
+            if (step?.result) {
+                checkpoint.variables[step.result] = options.decision;
+            }
+            checkpoint.completedSteps.push(pending.stepId);
+            checkpoint.lastResult = options.decision;
+            delete checkpoint.pending;
+        }
+
+        const variables = new Map(Object.entries(checkpoint.variables));
+        return this.run(checkpoint.input, variables, options.signal, {
+            store: this.checkpointStore,
+            checkpoint,
+        });
+    }
+
+    /**
+     * Run the pipeline with the given starting variables and shape the result.
+     */
+    private async run(
+        input: unknown,
+        variables: Map<string, unknown>,
+        signal: AbortSignal | undefined,
+        run?: RunState,
+        dryRun?: DryRunState
+    ): Promise<Response | Record<string, unknown>> {
+        const timeout = this.timeout > 0
+            ? createTimeoutSignal(this.timeout, `[Beddel] Workflow timeout (${this.timeout}ms)`, signal)
+            : null;
+
+        // Each run tracks the env values it reads, so only those are masked
+        const env = new EnvAccess(this.envAllowlist, this.declaredEnv);
+        // Restored variables may hold values an earlier process read
+        if (run?.checkpoint.env) {
+            env.restore(run.checkpoint.env);
+        }
         const context: ExecutionContext = {
             input,
-            variables: new Map(),
+            variables,
             trace: this.observabilityEnabled ? [] : undefined,
+            signal: timeout ? timeout.signal : signal,
+            dryRun,
+            agentRegistry: this.agentRegistry,
+            strict: this.strict,
+            env,
+            // Checkpointed runs keep their ID across resumes
+            runId: run ? run.checkpoint.runId : createRunId(),
+            agent: { name: this.name, version: this.version },
         };
 
-        const totalSteps = this.steps.length;
-        let lastResult: Record<string, unknown> | null = null;
-
-        // Helper to attach trace to result (no-op if trace is empty/undefined)
+        // Helper to attach trace and runId to result and mask env values in both
         const attachTrace = (result: Record<string, unknown>): Record<string, unknown> => {
+            if (run) {
+                result = { ...result, __runId: run.checkpoint.runId };
+            }
             if (context.trace && context.trace.length > 0) {
-                return { ...result, __trace: context.trace };
+                result = { ...result, __trace: context.trace };
             }
-            return result;
+            return env.mask(result);
         };
 
-        for (let i = 0; i < this.steps.length; i++) {
-            const step = this.steps[i];
-            const handler = handlerRegistry[step.type];
-
-            if (!handler) {
-                throw new Error(
-                    `[Beddel] Unknown step type: "${step.type}" in step "${step.id}". ` +
-                    `Registered types: ${Object.keys(handlerRegistry).join(', ') || '(none)'}`
-                );
+        let outcome: RunOutcome;
+        try {
+            // Strict mode: references to results no step produces fail before any step runs
+            // (dry runs list them in the plan instead)
+            const issue = this.lintIssues.find(
+                (lintIssue): lintIssue is LintIssue & { reference: string } => lintIssue.reference !== undefined
+            );
+            if (issue && !dryRun) {
+                throw new UnresolvedReferenceError(issue.stepId, issue.key, issue.reference);
             }
 
-            // Emit step-start event
-            this.pushEvent(context, {
-                type: 'step-start',
-                stepId: step.id,
-                stepType: step.type,
-                stepIndex: i,
-                totalSteps,
-                timestamp: Date.now(),
-            });
-
-            const startTime = Date.now();
+            outcome = await this.runSteps(this.steps, context, {}, run);
+        } catch (error) {
+            timeout?.clear();
+            // Errors end up in logs, $error and error responses
+            env.maskError(error);
 
-            try {
-                // Execute the handler with step config and context
-                const result = await handler(step.config as StepConfig, context);
-                const duration = Date.now() - startTime;
-
-                // Emit step-complete event
-                this.pushEvent(context, {
-                    type: 'step-complete',
-                    stepId: step.id,
-                    stepType: step.type,
-                    stepIndex: i,
-                    totalSteps,
-                    timestamp: Date.now(),
-                    duration,
-                });
-
-                // CRITICAL: If handler returns Response (streaming), return immediately
-                // Note: Streaming responses don't include trace (they're streamed directly)
-                if (result instanceof Response) {
-                    return result;
+            if (error instanceof WorkflowSuspendedError) {
+                if (!run) {
+                    throw new Error(
+                        `[Beddel] Step "${error.stepId}" suspends the run and requires a checkpointStore`
+                    );
                 }
+                // The payload is shown to whoever supplies the decision
+                error.payload = env.mask(error.payload);
+                run.checkpoint.status = 'suspended';
+                run.checkpoint.pending = { stepId: error.stepId, payload: error.payload };
+                await this.saveCheckpoint(run, context);
 
-                // Store result for subsequent steps (if step.result is defined)
-                if (step.result) {
-                    context.variables.set(step.result, result);
-                }
+                // Not an error: skip the catch template and let the caller report it
+                error.runId = run.checkpoint.runId;
+                throw error;
+            }
 
-                // Track last result for final return
-                lastResult = result;
-            } catch (error) {
-                const duration = Date.now() - startTime;
-
-                // Emit step-error event
-                this.pushEvent(context, {
-                    type: 'step-error',
-                    stepId: step.id,
-                    stepType: step.type,
-                    stepIndex: i,
-                    totalSteps,
-                    timestamp: Date.now(),
-                    duration,
-                    errorType: this.sanitizeErrorType(error),
+            if (run) {
+                run.checkpoint.status = 'failed';
+                // A failing store must not hide the step's error
+                await this.saveCheckpoint(run, context).catch((err) => {
+                    console.warn('[Beddel] Failed to save checkpoint:', err);
                 });
+            }
 
-                throw error;
+            // If 'catch' template is defined, it shapes the error response
+            if (this.catchTemplate !== undefined) {
+                // stepId is empty for errors not raised by a step
+                context.variables.set('error', toErrorInfo(error, ''));
+                return attachTrace(toRecord(resolveVariables(this.catchTemplate, context)));
+            }
+            throw error;
+        }
+        const { response, lastResult } = outcome;
+
+        // Note: Streaming responses don't include trace (they're streamed directly)
+        // The workflow timeout keeps applying until the stream ends
+        if (response) {
+            if (!run) {
+                return response;
             }
+            // The run completes (or fails) with its stream
+            return onResponseEnd(response, (completed) => {
+                timeout?.clear();
+                if (!completed) {
+                    run.checkpoint.status = 'failed';
+                }
+                const finish = completed ? this.completeRun(run, context) : this.saveCheckpoint(run, context);
+                // A failing store must not break the stream
+                finish.catch((err) => console.warn('[Beddel] Failed to save checkpoint:', err));
+            });
+        }
+        timeout?.clear();
+
+        if (run) {
+            await this.completeRun(run, context);
         }
 
         // If last step has no 'result' key, return its output directly
         // This allows the final step to define the API response shape
         const lastStep = this.steps[this.steps.length - 1];
         if (lastStep && !lastStep.result && lastResult) {
-            return attachTrace(lastResult);
+            return attachTrace(toRecord(lastResult));
         }
 
         // If 'return' template is defined, resolve and return it
         // This provides explicit control over the API response contract
         if (this.returnTemplate !== undefined) {
             const resolved = resolveVariables(this.returnTemplate, context);
-            
-            // Ensure we return a Record
-            if (typeof resolved === 'object' && resolved !== null && !Array.isArray(resolved)) {
-                return attachTrace(resolved as Record<string, unknown>);
-            }
-            
-            // Wrap primitives and arrays in an object
-            return attachTrace({ value: resolved });
+
+            // Ensure we return a Record (primitives and arrays are wrapped in an object)
+            return attachTrace(toRecord(resolved));
         }
 
         // Fallback: return accumulated variables as object
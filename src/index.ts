@@ -9,9 +9,35 @@
  */
 
 // Core (server-only)
-export { loadYaml } from './core/parser';
+export { loadYaml, parseYaml } from './core/parser';
+export type { ParseYamlOptions, LoadYamlOptions } from './core/parser';
 export { WorkflowExecutor } from './core/workflow';
+export type { ExecuteOptions, ResumeOptions, WorkflowExecutorOptions } from './core/workflow';
+export {
+    TimeoutError,
+    WorkflowSuspendedError,
+    YamlValidationError,
+    ExpressionError,
+    UnresolvedReferenceError,
+    EnvAccessError,
+} from './core/errors';
+export type { YamlValidationIssue } from './core/errors';
+export { MemoryCheckpointStore, FileCheckpointStore } from './core/checkpoint';
+export type { Checkpoint, CheckpointStore } from './core/checkpoint';
+export {
+    AgentRegistry,
+    FileAgentSource,
+    BuiltinAgentSource,
+    MemoryAgentSource,
+    LoaderAgentSource,
+    createAgentRegistry,
+    listAgents,
+} from './core/agent-registry';
+export type { AgentSource, AgentEntry, AgentLoader, AgentRegistryOptions, AgentInfo } from './core/agent-registry';
 export { resolveVariables } from './core/variable-resolver';
+export { lintAgent } from './core/lint';
+export { EnvAccess } from './core/env';
+export type { LintIssue } from './core/lint';
 export { createBeddelHandler } from './server/handler';
 
 
@@ -24,14 +50,16 @@ export type { ToolImplementation } from './tools';
 
 // Providers registry (for custom LLM provider registration)
 export { providerRegistry, registerProvider, createModel } from './providers';
-export type { ProviderImplementation, ProviderConfig } from './providers';
+export type { ProviderImplementation, ProviderConfig, ModelCandidate, ModelFallback, ServedModel, FallbackOptions } from './providers';
 
 // Built-in agents registry
 export { 
     BUILTIN_AGENTS, 
+    BUILTIN_AGENT_IDS,
     getBuiltinAgentsPath, 
     getBuiltinAgentPath, 
-    isBuiltinAgent 
+    isBuiltinAgent,
+    isValidAgentId,
 } from './agents';
 export type { BuiltinAgentId } from './agents';
 
@@ -43,5 +71,8 @@ export type {
     YamlMetadata,
     ExecutionContext,
     PrimitiveHandler,
+    RetryPolicy,
+    StepErrorInfo,
+    PlannedStep,
 } from './types';
 
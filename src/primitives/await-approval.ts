@@ -0,0 +1,66 @@
+/**
+ * Beddel Protocol - Await Approval Primitive
+ * 
+ * Human-in-the-loop step: suspends the run and returns its pending payload
+ * (e.g., an LLM draft) to the caller. The run is resumed by a second request
+ * that supplies the decision, which becomes this step's result.
+ * 
+ * Requires a checkpointStore on the executor (or createBeddelHandler) and must
+ * be a top-level step, since resuming builds on the run's checkpoint.
+ * 
+ * Server-only: Used within WorkflowExecutor during step execution.
+ */
+
+import type { StepConfig, ExecutionContext, PrimitiveHandler } from '../types';
+import { resolveVariables } from '../core/variable-resolver';
+import { WorkflowSuspendedError } from '../core/errors';
+
+/**
+ * Await approval step configuration from YAML.
+ * 
+ * @example
+ * - id: "approve-reply"
+ *   type: "await-approval"
+ *   config:
+ *     message: "Approve the reply to this review?"
+ *     payload:
+ *       review: "$stepResult.review.comment"
+ *       draft: "$stepResult.draft.text"
+ *   result: "approval"
+ * 
+ * - id: "send-reply"
+ *   type: "google-business"
+ *   if: "$stepResult.approval.approved"
+ *   config:
+ *     action: "replyReview"
+ *     reviewName: "$input.reviewName"
+ *     comment: "$stepResult.approval.comment"
+ */
+interface AwaitApprovalConfig extends StepConfig {
+    /** Optional: Prompt shown to the approver */
+    message?: string;
+    /** Data to review (variable references are resolved) */
+    payload?: unknown;
+}
+
+/**
+ * Await Approval Primitive Handler
+ * 
+ * Never returns: always throws WorkflowSuspendedError with the resolved
+ * payload. On resume the executor stores the decision as the step's result
+ * instead of calling this handler again.
+ * 
+ * @param config - Step configuration from YAML
+ * @param context - Execution context with input and variables
+ */
+export const awaitApprovalPrimitive: PrimitiveHandler = async (
+    config: StepConfig,
+    context: ExecutionContext
+): Promise<never> => {
+    const approvalConfig = config as AwaitApprovalConfig;
+
+    throw new WorkflowSuspendedError({
+        message: approvalConfig.message,
+        data: resolveVariables(approvalConfig.payload, context),
+    });
+};
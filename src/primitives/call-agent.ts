@@ -5,16 +5,14 @@
  * This primitive loads and executes another agent's workflow,
  * passing input and returning the result.
  * 
- * Server-only: Uses loadYaml and WorkflowExecutor.
+ * Server-only: Uses AgentRegistry and WorkflowExecutor.
  */
 
 import type { StepConfig, ExecutionContext, PrimitiveHandler } from '../types';
-import { loadYaml } from '../core/parser';
 import { WorkflowExecutor } from '../core/workflow';
 import { resolveVariables } from '../core/variable-resolver';
-import { join } from 'path';
-import { access } from 'fs/promises';
-import { getBuiltinAgentsPath } from '../agents';
+import { createAgentRegistry } from '../core/agent-registry';
+import type { AgentRegistry } from '../core/agent-registry';
 
 /**
  * Call Agent step configuration from YAML.
@@ -29,39 +27,27 @@ interface CallAgentConfig extends StepConfig {
 }
 
 /**
- * Check if a file exists at the given path
+ * Registries for explicit `agentsPath` configs, kept so their caches
+ * survive between calls.
  */
-async function fileExists(path: string): Promise<boolean> {
-    try {
-        await access(path);
-        return true;
-    } catch {
-        return false;
-    }
-}
+const registriesByPath = new Map<string, AgentRegistry>();
 
 /**
- * Resolve agent path with fallback chain:
- * 1. User agents (agentsPath) - allows override
- * 2. Built-in agents (package) - fallback
+ * Get the registry for a call: the step's `agentsPath` if set, otherwise the
+ * registry of the calling workflow (e.g., the handler's), otherwise the defaults.
  */
-async function resolveAgentPath(
-    agentId: string,
-    agentsPath: string
-): Promise<string> {
-    // 1. First: try user agents
-    const userPath = join(process.cwd(), agentsPath, `${agentId}.yaml`);
-    if (await fileExists(userPath)) {
-        return userPath;
+function getAgentRegistry(agentsPath: string | undefined, context: ExecutionContext): AgentRegistry {
+    if (!agentsPath && context.agentRegistry) {
+        return context.agentRegistry;
     }
 
-    // 2. Fallback: built-in agents from package
-    const builtinPath = join(getBuiltinAgentsPath(), `${agentId}.yaml`);
-    if (await fileExists(builtinPath)) {
-        return builtinPath;
+    const path = agentsPath || 'src/agents';
+    let registry = registriesByPath.get(path);
+    if (!registry) {
+        registry = createAgentRegistry({ agentsPath: path });
+        registriesByPath.set(path, registry);
     }
-
-    throw new Error(`[Beddel] Agent not found: ${agentId}`);
+    return registry;
 }
 
 /**
@@ -95,14 +81,19 @@ export const callAgentPrimitive: PrimitiveHandler = async (
         ? resolveVariables(callConfig.input, context)
         : context.input;
 
-    // Resolve agent path
-    const agentsPath = callConfig.agentsPath || 'src/agents';
-    const agentPath = await resolveAgentPath(callConfig.agentId, agentsPath);
+    // Resolve agent with fallback chain (user agents, then built-ins)
+    const agentRegistry = getAgentRegistry(callConfig.agentsPath, context);
+    const yaml = await agentRegistry.get(callConfig.agentId);
 
-    // Load and execute the agent
-    const yaml = await loadYaml(agentPath);
-    const executor = new WorkflowExecutor(yaml);
-    const result = await executor.execute(agentInput);
+    // Execute the agent with the same registry, strict default and env allowlist,
+    // so its own calls resolve alike; its metadata.env still applies
+    const executor = new WorkflowExecutor(yaml, {
+        agentRegistry,
+        strict: context.strict,
+        envAllowlist: context.env ? [...context.env.allowlist] : undefined,
+    });
+    // Propagate cancellation so the sub-agent stops when this step times out
+    const result = await executor.execute(agentInput, { signal: context.signal });
 
     return result;
 };
@@ -14,6 +14,9 @@
  * - Input comes from useChat frontend hook
  * - You need streaming responses to the client
  * 
+ * With a `schema:`, the partial object parsed so far is also streamed as a
+ * `data-object` part (see BeddelUIMessage in beddel/client).
+ * 
  * Server-only: Uses Vercel AI SDK Core.
  */
 
@@ -22,13 +25,12 @@ import {
     convertToModelMessages,
     createUIMessageStream,
     createUIMessageStreamResponse,
-    stepCountIs,
+    Output,
     type UIMessage,
 } from 'ai';
-import type { StepConfig, ExecutionContext, PrimitiveHandler } from '../types';
+import type { StepConfig, ExecutionContext, PrimitiveHandler, BeddelMessageMetadata } from '../types';
 import { resolveVariables } from '../core/variable-resolver';
-import { createModel } from '../providers';
-import { mapTools, callbackRegistry, type LlmConfig } from './llm-core';
+import { createStepModel, generationSettings, mapTools, callbackRegistry, toZodSchema, type LlmConfig } from './llm-core';
 
 /**
  * Chat Primitive Handler
@@ -46,8 +48,14 @@ export const chatPrimitive: PrimitiveHandler = async (
 ): Promise<Response> => {
     const llmConfig = config as LlmConfig;
 
-    const model = createModel(llmConfig.provider || 'google', {
-        model: llmConfig.model || 'gemini-1.5-flash',
+    // The trace is sent again when a fallback adds a step-fallback event
+    let sendTrace: (() => void) | undefined;
+    const { model, served } = createStepModel(llmConfig, {
+        ...context,
+        onModelFallback: (fallback) => {
+            context.onModelFallback?.(fallback);
+            sendTrace?.();
+        },
     });
 
     // Resolve and convert UIMessage to ModelMessage
@@ -60,61 +68,17 @@ export const chatPrimitive: PrimitiveHandler = async (
     // Resolve system prompt (may contain $stepResult.* variables from previous steps)
     const system = resolveVariables(llmConfig.system, context) as string | undefined;
 
-    // Check if we have trace to send (observability enabled)
-    const hasTrace = context.trace && context.trace.length > 0;
+    // With a schema, partial objects are streamed as data-object parts next to the text
+    const output = llmConfig.schema ? Output.object({ schema: toZodSchema(llmConfig.schema) }) : undefined;
 
-    if (hasTrace) {
-        // Use createUIMessageStream to send trace before chat stream
-        const stream = createUIMessageStream({
-            execute: ({ writer }) => {
-                // Send trace as transient data part
-                writer.write({
-                    type: 'data-trace',
-                    id: 'workflow-trace',
-                    data: { events: context.trace },
-                    transient: true,
-                });
-
-                // Stream the LLM response
-                const result = streamText({
-                    model,
-                    messages,
-                    system,
-                    stopWhen: hasTools ? stepCountIs(5) : undefined,
-                    tools,
-                    onFinish: async ({ text, finishReason, usage, totalUsage, steps, response }) => {
-                        if (llmConfig.onFinish) {
-                            const callback = callbackRegistry[llmConfig.onFinish];
-                            if (callback) {
-                                await callback({ text, finishReason, usage, totalUsage, steps, response });
-                            }
-                        }
-                    },
-                    onError: ({ error }) => {
-                        if (llmConfig.onError) {
-                            const callback = callbackRegistry[llmConfig.onError];
-                            if (callback) {
-                                callback({ error });
-                            }
-                        }
-                        console.error('[Beddel] Stream error:', error);
-                    },
-                });
-
-                writer.merge(result.toUIMessageStream());
-            },
-        });
-
-        return createUIMessageStreamResponse({ stream });
-    }
-
-    // No trace: use current simple behavior
-    const result = streamText({
+    const startStream = () => streamText({
         model,
         messages,
         system,
-        stopWhen: hasTools ? stepCountIs(5) : undefined,
         tools,
+        ...generationSettings(llmConfig, !!hasTools, context),
+        output,
+        abortSignal: context.signal,
         onFinish: async ({ text, finishReason, usage, totalUsage, steps, response }) => {
             if (llmConfig.onFinish) {
                 const callback = callbackRegistry[llmConfig.onFinish];
@@ -130,9 +94,52 @@ export const chatPrimitive: PrimitiveHandler = async (
                     callback({ error });
                 }
             }
+            context.env?.maskError(error);
             console.error('[Beddel] Stream error:', error);
         },
     });
 
-    return result.toUIMessageStreamResponse();
+    // With fallbacks, the finished message's metadata names the model that answered
+    const messageMetadata = ({ part }: { part: { type: string } }): BeddelMessageMetadata | undefined => {
+        const servedModel = part.type === 'finish' ? served() : undefined;
+        return servedModel && { model: servedModel };
+    };
+
+    // Check if we have trace to send (observability enabled)
+    const hasTrace = context.trace && context.trace.length > 0;
+
+    if (!hasTrace && !output) {
+        // Plain text stream
+        return startStream().toUIMessageStreamResponse({ messageMetadata });
+    }
+
+    // Use createUIMessageStream to add data parts around the chat stream
+    const stream = createUIMessageStream({
+        execute: async ({ writer }) => {
+            if (hasTrace) {
+                // Send trace as transient data part
+                sendTrace = () => writer.write({
+                    type: 'data-trace',
+                    id: 'workflow-trace',
+                    data: { events: [...context.trace!] },
+                    transient: true,
+                });
+                sendTrace();
+            }
+
+            // Stream the LLM response
+            const result = startStream();
+            writer.merge(result.toUIMessageStream({ messageMetadata }));
+
+            if (output) {
+                // Same id: each partial object replaces the previous one in the message
+                const id = context.step?.id ?? 'object';
+                for await (const partial of result.partialOutputStream) {
+                    writer.write({ type: 'data-object', id, data: partial });
+                }
+            }
+        },
+    });
+
+    return createUIMessageStreamResponse({ stream });
 };
@@ -195,7 +195,7 @@ function getCredentials(): OAuth2Credentials {
 /**
  * Refresh the access token using the refresh token.
  */
-async function refreshAccessToken(credentials: OAuth2Credentials): Promise<string> {
+async function refreshAccessToken(credentials: OAuth2Credentials, signal?: AbortSignal): Promise<string> {
     // Check if we have a valid cached token
     if (credentials.accessToken && credentials.expiresAt) {
         const now = Date.now();
@@ -216,6 +216,7 @@ async function refreshAccessToken(credentials: OAuth2Credentials): Promise<strin
             refresh_token: credentials.refreshToken,
             grant_type: 'refresh_token',
         }),
+        signal,
     });
 
     if (!response.ok) {
@@ -245,12 +246,15 @@ async function apiRequest<T>(
         method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
         body?: unknown;
         baseUrl?: string;
+        /** Step context: its signal aborts the request, its env masks the log */
+        context?: ExecutionContext;
     } = {}
 ): Promise<T> {
+    const { method = 'GET', body, baseUrl = 'https://mybusiness.googleapis.com/v4', context } = options;
+
     const credentials = getCredentials();
-    const accessToken = await refreshAccessToken(credentials);
+    const accessToken = await refreshAccessToken(credentials, context?.signal);
 
-    const { method = 'GET', body, baseUrl = 'https://mybusiness.googleapis.com/v4' } = options;
     const url = `${baseUrl}${endpoint}`;
 
     const fetchOptions: RequestInit = {
@@ -259,13 +263,16 @@ async function apiRequest<T>(
             'Authorization': `Bearer ${accessToken}`,
             'Content-Type': 'application/json',
         },
+        signal: context?.signal,
     };
 
     if (body) {
         fetchOptions.body = JSON.stringify(body);
     }
 
-    console.log(`[Beddel Google Business] ${method} ${url}`);
+    // URLs can contain env-resolved account and location IDs
+    const line = `[Beddel Google Business] ${method} ${url}`;
+    console.log(context?.env ? context.env.mask(line) : line);
 
     const response = await fetch(url, fetchOptions);
 
@@ -284,7 +291,7 @@ async function apiRequest<T>(
 /**
  * List all reviews for a location with auto-pagination.
  */
-async function listReviews(config: GoogleBusinessConfig): Promise<GoogleBusinessResult> {
+async function listReviews(config: GoogleBusinessConfig, context: ExecutionContext): Promise<GoogleBusinessResult> {
     const { accountId, locationId, pageSize = 50, maxPages = 10, orderBy, ignoreRatingOnlyReviews } = config;
 
     if (!accountId || !locationId) {
@@ -311,7 +318,7 @@ async function listReviews(config: GoogleBusinessConfig): Promise<GoogleBusiness
                 nextPageToken?: string;
                 totalReviewCount?: number;
                 averageRating?: number;
-            }>(endpoint);
+            }>(endpoint, { context });
 
             if (response.reviews) {
                 allReviews.push(...response.reviews);
@@ -352,7 +359,7 @@ async function listReviews(config: GoogleBusinessConfig): Promise<GoogleBusiness
 /**
  * Reply to a specific review.
  */
-async function replyReview(config: GoogleBusinessConfig): Promise<GoogleBusinessResult> {
+async function replyReview(config: GoogleBusinessConfig, context: ExecutionContext): Promise<GoogleBusinessResult> {
     const { reviewName, comment } = config;
 
     if (!reviewName || !comment) {
@@ -364,6 +371,7 @@ async function replyReview(config: GoogleBusinessConfig): Promise<GoogleBusiness
         const response = await apiRequest<{ comment: string; updateTime: string }>(endpoint, {
             method: 'PUT',
             body: { comment },
+            context,
         });
 
         return {
@@ -381,7 +389,7 @@ async function replyReview(config: GoogleBusinessConfig): Promise<GoogleBusiness
 /**
  * Batch get reviews from multiple locations.
  */
-async function batchGetReviews(config: GoogleBusinessConfig): Promise<GoogleBusinessResult> {
+async function batchGetReviews(config: GoogleBusinessConfig, context: ExecutionContext): Promise<GoogleBusinessResult> {
     const { accountId, locationNames, pageSize = 50, orderBy, ignoreRatingOnlyReviews } = config;
 
     if (!accountId || !locationNames || locationNames.length === 0) {
@@ -403,6 +411,7 @@ async function batchGetReviews(config: GoogleBusinessConfig): Promise<GoogleBusi
                 orderBy: orderBy || 'update_time desc',
                 ignoreRatingOnlyReviews: ignoreRatingOnlyReviews || false,
             },
+            context,
         });
 
         const allReviews: Review[] = [];
@@ -429,7 +438,7 @@ async function batchGetReviews(config: GoogleBusinessConfig): Promise<GoogleBusi
 /**
  * Create a local post for a location.
  */
-async function createPost(config: GoogleBusinessConfig): Promise<GoogleBusinessResult> {
+async function createPost(config: GoogleBusinessConfig, context: ExecutionContext): Promise<GoogleBusinessResult> {
     const { accountId, locationId, post } = config;
 
     if (!accountId || !locationId || !post) {
@@ -441,6 +450,7 @@ async function createPost(config: GoogleBusinessConfig): Promise<GoogleBusinessR
         const response = await apiRequest<unknown>(endpoint, {
             method: 'POST',
             body: post,
+            context,
         });
 
         return {
@@ -457,7 +467,7 @@ async function createPost(config: GoogleBusinessConfig): Promise<GoogleBusinessR
 /**
  * List all posts for a location.
  */
-async function listPosts(config: GoogleBusinessConfig): Promise<GoogleBusinessResult> {
+async function listPosts(config: GoogleBusinessConfig, context: ExecutionContext): Promise<GoogleBusinessResult> {
     const { accountId, locationId, pageSize = 50 } = config;
 
     if (!accountId || !locationId) {
@@ -469,7 +479,7 @@ async function listPosts(config: GoogleBusinessConfig): Promise<GoogleBusinessRe
         params.set('pageSize', String(pageSize));
 
         const endpoint = `/accounts/${accountId}/locations/${locationId}/localPosts?${params}`;
-        const response = await apiRequest<{ localPosts?: unknown[] }>(endpoint);
+        const response = await apiRequest<{ localPosts?: unknown[] }>(endpoint, { context });
 
         return {
             success: true,
@@ -485,7 +495,7 @@ async function listPosts(config: GoogleBusinessConfig): Promise<GoogleBusinessRe
 /**
  * Get performance metrics for a location.
  */
-async function getMetrics(config: GoogleBusinessConfig): Promise<GoogleBusinessResult> {
+async function getMetrics(config: GoogleBusinessConfig, context: ExecutionContext): Promise<GoogleBusinessResult> {
     const { locationId, metrics, dateRange } = config;
 
     if (!locationId) {
@@ -511,6 +521,7 @@ async function getMetrics(config: GoogleBusinessConfig): Promise<GoogleBusinessR
         const response = await apiRequest<unknown>(endpoint, {
             method: 'GET',
             baseUrl,
+            context,
         });
 
         return {
@@ -528,7 +539,7 @@ async function getMetrics(config: GoogleBusinessConfig): Promise<GoogleBusinessR
 /**
  * List questions for a location.
  */
-async function listQuestions(config: GoogleBusinessConfig): Promise<GoogleBusinessResult> {
+async function listQuestions(config: GoogleBusinessConfig, context: ExecutionContext): Promise<GoogleBusinessResult> {
     const { locationId, pageSize = 50 } = config;
 
     if (!locationId) {
@@ -541,7 +552,7 @@ async function listQuestions(config: GoogleBusinessConfig): Promise<GoogleBusine
         params.set('pageSize', String(pageSize));
 
         const endpoint = `/locations/${locationId}/questions?${params}`;
-        const response = await apiRequest<{ questions?: unknown[] }>(endpoint, { baseUrl });
+        const response = await apiRequest<{ questions?: unknown[] }>(endpoint, { baseUrl, context });
 
         return {
             success: true,
@@ -557,7 +568,7 @@ async function listQuestions(config: GoogleBusinessConfig): Promise<GoogleBusine
 /**
  * Answer a question.
  */
-async function answerQuestion(config: GoogleBusinessConfig): Promise<GoogleBusinessResult> {
+async function answerQuestion(config: GoogleBusinessConfig, context: ExecutionContext): Promise<GoogleBusinessResult> {
     const { questionName, answer } = config;
 
     if (!questionName || !answer) {
@@ -571,6 +582,7 @@ async function answerQuestion(config: GoogleBusinessConfig): Promise<GoogleBusin
             method: 'POST',
             baseUrl,
             body: { answer: { answer } },
+            context,
         });
 
         return {
@@ -636,28 +648,28 @@ export const googleBusinessPrimitive: PrimitiveHandler = async (
     // Route to appropriate action handler
     switch (resolvedConfig.action) {
         case 'listReviews':
-            return listReviews(resolvedConfig);
+            return listReviews(resolvedConfig, context);
 
         case 'replyReview':
-            return replyReview(resolvedConfig);
+            return replyReview(resolvedConfig, context);
 
         case 'batchGetReviews':
-            return batchGetReviews(resolvedConfig);
+            return batchGetReviews(resolvedConfig, context);
 
         case 'createPost':
-            return createPost(resolvedConfig);
+            return createPost(resolvedConfig, context);
 
         case 'listPosts':
-            return listPosts(resolvedConfig);
+            return listPosts(resolvedConfig, context);
 
         case 'getMetrics':
-            return getMetrics(resolvedConfig);
+            return getMetrics(resolvedConfig, context);
 
         case 'listQuestions':
-            return listQuestions(resolvedConfig);
+            return listQuestions(resolvedConfig, context);
 
         case 'answerQuestion':
-            return answerQuestion(resolvedConfig);
+            return answerQuestion(resolvedConfig, context);
 
         default:
             return {
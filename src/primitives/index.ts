@@ -15,6 +15,7 @@ import { callAgentPrimitive } from './call-agent';
 import { mcpToolPrimitive } from './mcp-tool';
 import { googleBusinessPrimitive } from './google-business';
 import { notionPrimitive } from './notion';
+import { awaitApprovalPrimitive } from './await-approval';
 
 // Re-export from llm-core for consumer access
 export { registerCallback, callbackRegistry } from './llm-core';
@@ -24,6 +25,7 @@ export { callAgentPrimitive } from './call-agent';
 export { mcpToolPrimitive } from './mcp-tool';
 export { googleBusinessPrimitive } from './google-business';
 export { notionPrimitive } from './notion';
+export { awaitApprovalPrimitive } from './await-approval';
 
 /**
  * Registry of primitive handlers keyed by step type.
@@ -82,6 +84,13 @@ export const handlerRegistry: Record<string, PrimitiveHandler> = {
      * Use for: Content management, database operations, knowledge bases.
      */
     'notion': notionPrimitive,
+
+    /**
+     * Await Approval Primitive - Human-in-the-loop pause.
+     * Suspends the run until a decision is supplied on resume.
+     * Use for: Approving LLM drafts before they are sent.
+     */
+    'await-approval': awaitApprovalPrimitive,
 };
 
 /**
@@ -6,9 +6,16 @@
  * Server-only: Uses Vercel AI SDK Core.
  */
 
-import { dynamicTool, type ToolSet } from 'ai';
-import type { StepConfig } from '../types';
+import { dynamicTool, generateText, stepCountIs, type ToolChoice, type ToolSet } from 'ai';
+import { z } from 'zod';
+import type { ExecutionContext, StepConfig } from '../types';
 import { toolRegistry, type ToolImplementation } from '../tools';
+import { createModel, type ModelCandidate, type ServedModel } from '../providers';
+import { resolveVariables } from '../core/variable-resolver';
+import { readEnv } from '../core/env';
+
+/** AI SDK providerOptions (JSON values keyed by provider) */
+type ProviderOptions = NonNullable<Parameters<typeof generateText>[0]['providerOptions']>;
 
 /**
  * Callback function type for lifecycle hooks (onFinish, onError).
@@ -30,6 +37,11 @@ export function registerCallback(name: string, callback: CallbackFn): void {
     callbackRegistry[name] = callback;
 }
 
+/**
+ * Numeric setting: a number, or a variable reference resolving to one (e.g., "$input.temperature").
+ */
+export type ConfigNumber = number | string;
+
 /**
  * Tool definition from YAML config.
  */
@@ -38,6 +50,50 @@ export interface YamlToolDefinition {
     description?: string;
 }
 
+/**
+ * Model entry from YAML `fallbacks` (the step's own provider settings use the same keys).
+ */
+export interface YamlModelCandidate {
+    provider: string;
+    model?: string;
+    baseURL?: string;
+    apiKeyEnv?: string;
+}
+
+/**
+ * Value types allowed in a YAML output schema.
+ */
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * Output schema from YAML: the subset of JSON Schema accepted by `schema:`.
+ * 
+ * @example
+ * schema:
+ *   type: "object"
+ *   properties:
+ *     sentiment: { type: "string", enum: ["Positive", "Neutral", "Negative"] }
+ *     summary: { type: "string", maxLength: 100 }
+ *   required: ["sentiment", "summary"]
+ */
+export interface JsonSchema {
+    type?: JsonSchemaType | JsonSchemaType[];
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean;
+    items?: JsonSchema;
+    enum?: (string | number | boolean | null)[];
+    minimum?: number;
+    maximum?: number;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    format?: string;
+    minItems?: number;
+    maxItems?: number;
+}
+
 /**
  * LLM step configuration from YAML.
  */
@@ -49,6 +105,129 @@ export interface LlmConfig extends StepConfig {
     tools?: YamlToolDefinition[];
     onFinish?: string;
     onError?: string;
+    /** Output schema: llm returns a validated `object`, chat streams `data-object` parts */
+    schema?: JsonSchema;
+    /** Extra attempts when the response does not match `schema` (llm only, default: 2) */
+    schemaRetries?: ConfigNumber;
+    temperature?: ConfigNumber;
+    maxOutputTokens?: ConfigNumber;
+    topP?: ConfigNumber;
+    topK?: ConfigNumber;
+    presencePenalty?: ConfigNumber;
+    frequencyPenalty?: ConfigNumber;
+    seed?: ConfigNumber;
+    stopSequences?: string[];
+    toolChoice?: ToolChoice<ToolSet>;
+    /** Maximum generation steps when tools are used (default: 5) */
+    maxSteps?: ConfigNumber;
+    /** Provider-specific settings keyed by provider name (e.g., google.safetySettings) */
+    providerOptions?: Record<string, Record<string, unknown>>;
+    /** API base URL (openai-compatible; may use variables like $env.LLM_URL) */
+    baseURL?: string;
+    /** Env var holding the API key (openai-compatible; must be declared in metadata.env) */
+    apiKeyEnv?: string;
+    /** Models tried in order when the configured one fails with a transient error */
+    fallbacks?: YamlModelCandidate[];
+}
+
+/**
+ * Provider settings of a step or fallback entry. The API key is read from
+ * `apiKeyEnv` through the run's env policy, like `$env` (so it must be
+ * declared in metadata.env or allowlisted) and is masked in output.
+ */
+function providerSettings(
+    { provider, model, baseURL, apiKeyEnv }: YamlModelCandidate,
+    context: ExecutionContext
+): ModelCandidate {
+    const candidate: ModelCandidate = { provider, model };
+    if (baseURL) {
+        candidate.baseURL = resolveVariables(baseURL, context);
+    }
+    if (apiKeyEnv) {
+        candidate.apiKey = readEnv(context.env, apiKeyEnv);
+    }
+    return candidate;
+}
+
+/**
+ * Create the model for an LLM step. With `fallbacks`, the configured
+ * provider/model is tried first and each switch to the next candidate is
+ * reported through context.onModelFallback (step-fallback trace events).
+ * 
+ * @returns The model, and a getter for the candidate that served the last
+ * call (only set for fallback chains)
+ */
+export function createStepModel(llmConfig: LlmConfig, context: ExecutionContext) {
+    // Without a model, each provider uses its default
+    const primary = providerSettings({ ...llmConfig, provider: llmConfig.provider || 'google' }, context);
+
+    if (!llmConfig.fallbacks || llmConfig.fallbacks.length === 0) {
+        const { provider, model, ...settings } = primary;
+        return { model: createModel(provider, { ...settings, model: model ?? '' }), served: () => undefined };
+    }
+
+    let served: ServedModel | undefined;
+    const fallbacks = llmConfig.fallbacks.map((fallback) => providerSettings(fallback, context));
+    const model = createModel([primary, ...fallbacks], {
+        onFallback: context.onModelFallback,
+        onServed: (candidate) => {
+            served = candidate;
+        },
+    });
+    return { model, served: (): ServedModel | undefined => served };
+}
+
+/** Default step limit for tool loops */
+const DEFAULT_MAX_STEPS = 5;
+
+/**
+ * Resolve a numeric setting that may be a variable reference.
+ * Missing values (including references to missing values) stay undefined;
+ * anything else must convert to a number.
+ */
+export function resolveNumber(
+    value: ConfigNumber | undefined,
+    key: string,
+    context: ExecutionContext
+): number | undefined {
+    const resolved = resolveVariables(value, context);
+    if (resolved === undefined || resolved === null || resolved === '') return undefined;
+    const number = typeof resolved === 'number' ? resolved : Number(resolved);
+    if (typeof resolved === 'boolean' || !Number.isFinite(number)) {
+        throw new Error(`[Beddel] ${key} must be a number, got ${JSON.stringify(resolved)}`);
+    }
+    return number;
+}
+
+/**
+ * Generation settings for generateText/streamText from an LLM step config.
+ * The step limit only applies when tools are used; numeric settings and
+ * providerOptions may reference variables like other config values.
+ */
+export function generationSettings(llmConfig: LlmConfig, hasTools: boolean, context: ExecutionContext) {
+    type NumericKey = 'temperature' | 'maxOutputTokens' | 'topP' | 'topK' |
+        'presencePenalty' | 'frequencyPenalty' | 'seed' | 'maxSteps';
+    const number = (key: NumericKey) => resolveNumber(llmConfig[key], key, context);
+    return {
+        temperature: number('temperature'),
+        maxOutputTokens: number('maxOutputTokens'),
+        topP: number('topP'),
+        topK: number('topK'),
+        presencePenalty: number('presencePenalty'),
+        frequencyPenalty: number('frequencyPenalty'),
+        seed: number('seed'),
+        stopSequences: llmConfig.stopSequences,
+        toolChoice: llmConfig.toolChoice,
+        stopWhen: hasTools ? stepCountIs(number('maxSteps') ?? DEFAULT_MAX_STEPS) : undefined,
+        providerOptions: resolveVariables(llmConfig.providerOptions, context) as ProviderOptions | undefined,
+    };
+}
+
+/**
+ * Convert a YAML output schema to a Zod schema for AI SDK object generation.
+ */
+export function toZodSchema(schema: JsonSchema): z.ZodType {
+    return z.fromJSONSchema(schema as Parameters<typeof z.fromJSONSchema>[0]);
 }
 
 /**
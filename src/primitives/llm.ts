@@ -10,14 +10,28 @@
  * - Result needs to be passed to next step
  * - Called from call-agent or other workflow steps
  * 
+ * With a `schema:`, the model is asked for JSON matching it (AI SDK object
+ * generation); the validated value is returned as `object`, and responses
+ * that do not match are retried with the validation error as feedback.
+ * 
  * Server-only: Uses Vercel AI SDK Core.
  */
 
-import { generateText, stepCountIs, type ModelMessage } from 'ai';
+import { generateText, NoObjectGeneratedError, NoOutputGeneratedError, Output, type ModelMessage } from 'ai';
 import type { StepConfig, ExecutionContext, PrimitiveHandler } from '../types';
 import { resolveVariables } from '../core/variable-resolver';
-import { createModel } from '../providers';
-import { mapTools, type LlmConfig } from './llm-core';
+import { createStepModel, generationSettings, mapTools, resolveNumber, toZodSchema, type LlmConfig } from './llm-core';
+
+/** Default extra attempts when a response does not match the step's schema */
+const DEFAULT_SCHEMA_RETRIES = 2;
+
+/**
+ * Describe why a response was rejected, for the retry prompt and the final error.
+ */
+function describeSchemaFailure(error: NoObjectGeneratedError | NoOutputGeneratedError): string {
+    const cause = error.cause instanceof Error ? error.cause.message : error.message;
+    return cause.length > 1000 ? `${cause.slice(0, 1000)}...` : cause;
+}
 
 /**
  * LLM Primitive Handler
@@ -27,7 +41,8 @@ import { mapTools, type LlmConfig } from './llm-core';
  * 
  * @param config - Step configuration from YAML
  * @param context - Execution context with input and variables
- * @returns Record with text and usage (never streams)
+ * @returns Record with text and usage, plus object when a schema is set and model
+ *   (the candidate that answered) when fallbacks are set (never streams)
  */
 export const llmPrimitive: PrimitiveHandler = async (
     config: StepConfig,
@@ -35,12 +50,10 @@ export const llmPrimitive: PrimitiveHandler = async (
 ): Promise<Record<string, unknown>> => {
     const llmConfig = config as LlmConfig;
 
-    const model = createModel(llmConfig.provider || 'google', {
-        model: llmConfig.model || 'gemini-1.5-flash',
-    });
+    const { model, served } = createStepModel(llmConfig, context);
 
     // Resolve messages - already in ModelMessage format
-    const messages = resolveVariables(llmConfig.messages, context) as ModelMessage[];
+    let messages = resolveVariables(llmConfig.messages, context) as ModelMessage[];
 
     const hasTools = llmConfig.tools && llmConfig.tools.length > 0;
     const tools = hasTools ? mapTools(llmConfig.tools!) : undefined;
@@ -48,16 +61,55 @@ export const llmPrimitive: PrimitiveHandler = async (
     // Resolve system prompt (may contain $stepResult.* variables from previous steps)
     const system = resolveVariables(llmConfig.system, context) as string | undefined;
 
-    const result = await generateText({
-        model,
-        messages,
-        system,
-        stopWhen: hasTools ? stepCountIs(5) : undefined,
-        tools,
-    });
-
-    return {
-        text: result.text,
-        usage: result.usage,
-    };
+    // With a schema, the response must be JSON matching it
+    const output = llmConfig.schema ? Output.object({ schema: toZodSchema(llmConfig.schema) }) : undefined;
+    const retries = output ? Math.max(0, Math.floor(resolveNumber(llmConfig.schemaRetries, 'schemaRetries', context) ?? DEFAULT_SCHEMA_RETRIES)) : 0;
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            const result = await generateText({
+                model,
+                messages,
+                system,
+                tools,
+                ...generationSettings(llmConfig, !!hasTools, context),
+                output,
+                abortSignal: context.signal,
+            });
+
+            const servedModel = served();
+            return {
+                text: result.text,
+                ...(output && { object: result.output }),
+                usage: result.usage,
+                // Which candidate answered (steps with fallbacks)
+                ...(servedModel && { model: servedModel }),
+            };
+        } catch (error) {
+            // No output at all (e.g., the response had no text or ended on a tool call) is retried too
+            const invalid = NoObjectGeneratedError.isInstance(error) || NoOutputGeneratedError.isInstance(error);
+            if (!output || !invalid) {
+                throw error;
+            }
+
+            const reason = describeSchemaFailure(error);
+            if (attempt >= retries) {
+                throw new Error(
+                    `[Beddel] llm response failed schema validation after ${attempt + 1} attempt(s): ${reason}`
+                );
+            }
+
+            // Show the model its rejected answer (if any) and why, then ask again
+            const rejected = NoObjectGeneratedError.isInstance(error) ? error.text : undefined;
+            messages = [
+                ...(messages ?? []),
+                ...(rejected ? [{ role: 'assistant' as const, content: rejected }] : []),
+                {
+                    role: 'user',
+                    content: `That response does not match the required JSON schema: ${reason}\n` +
+                        'Reply again with only JSON that matches the schema.',
+                },
+            ];
+        }
+    }
 };
@@ -84,7 +84,7 @@ export const mcpToolPrimitive: PrimitiveHandler = async (
     const toolArguments = mcpConfig.arguments 
         ? resolveVariables(mcpConfig.arguments, context) as Record<string, unknown>
         : {};
-    const timeout = mcpConfig.timeout || 30000;
+    const timeout = Number(mcpConfig.timeout) || 30000;
     const headers = mcpConfig.headers
         ? resolveVariables(mcpConfig.headers, context) as Record<string, string>
         : undefined;
@@ -97,7 +97,9 @@ export const mcpToolPrimitive: PrimitiveHandler = async (
         return { success: false, error: 'Missing required config: tool' };
     }
 
-    console.log(`[Beddel MCP] Connecting to ${url}...`);
+    // The URL can contain env-resolved keys
+    const mask = (text: string): string => context.env ? context.env.mask(text) : text;
+    console.log(mask(`[Beddel MCP] Connecting to ${url}...`));
     console.log(`[Beddel MCP] Tool: ${toolName}`);
     if (headers) {
         console.log(`[Beddel MCP] Using custom headers: ${Object.keys(headers).join(', ')}`);
@@ -105,6 +107,13 @@ export const mcpToolPrimitive: PrimitiveHandler = async (
 
     let client: any = null;
 
+    // Cancelled by this primitive's own timeout or by the step/workflow signal.
+    // Passed to every MCP request so timed-out calls are aborted, not left running.
+    const signal = context.signal
+        ? AbortSignal.any([context.signal, AbortSignal.timeout(timeout)])
+        : AbortSignal.timeout(timeout);
+    const requestOptions = { signal, timeout };
+
     try {
         // Lazy load MCP SDK
         await loadMcpSdk();
@@ -123,16 +132,11 @@ export const mcpToolPrimitive: PrimitiveHandler = async (
         );
 
         // Connect with timeout
-        const connectPromise = client.connect(transport);
-        const timeoutPromise = new Promise((_, reject) =>
-            setTimeout(() => reject(new Error('MCP connection timeout')), timeout)
-        );
-
-        await Promise.race([connectPromise, timeoutPromise]);
+        await client.connect(transport, requestOptions);
         console.log('[Beddel MCP] Connected!');
 
         // List available tools
-        const toolsResponse = await client.listTools();
+        const toolsResponse = await client.listTools(undefined, requestOptions);
         const availableTools = toolsResponse.tools || [];
         const toolNames = availableTools.map((t: any) => t.name);
         console.log(`[Beddel MCP] Available tools: ${toolNames.join(', ')}`);
@@ -158,16 +162,14 @@ export const mcpToolPrimitive: PrimitiveHandler = async (
         }
 
         // Call the tool with timeout
-        const callPromise = client.callTool({
-            name: toolName,
-            arguments: toolArguments,
-        });
-
-        const callTimeoutPromise = new Promise((_, reject) =>
-            setTimeout(() => reject(new Error(`MCP tool timeout (${timeout}ms)`)), timeout)
+        const result: any = await client.callTool(
+            {
+                name: toolName,
+                arguments: toolArguments,
+            },
+            undefined,
+            requestOptions
         );
-
-        const result: any = await Promise.race([callPromise, callTimeoutPromise]);
         await client.close();
 
         // Extract text content from result
@@ -184,8 +186,10 @@ export const mcpToolPrimitive: PrimitiveHandler = async (
         };
 
     } catch (error: unknown) {
-        const message = error instanceof Error ? error.message : String(error);
-        console.error(`[Beddel MCP] Error: ${message}`);
+        const message = signal.aborted && signal.reason instanceof Error
+            ? signal.reason.message
+            : error instanceof Error ? error.message : String(error);
+        console.error(mask(`[Beddel MCP] Error: ${message}`));
 
         // Ensure client is closed on error
         if (client) {
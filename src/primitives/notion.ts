@@ -127,10 +127,12 @@ async function apiRequest<T>(
     options: {
         method?: 'GET' | 'POST' | 'PATCH' | 'DELETE';
         body?: unknown;
+        /** Step context: its signal aborts the request, its env masks the log */
+        context?: ExecutionContext;
     } = {}
 ): Promise<T> {
     const token = getToken();
-    const { method = 'GET', body } = options;
+    const { method = 'GET', body, context } = options;
     const url = `${NOTION_API_BASE}${endpoint}`;
 
     const fetchOptions: RequestInit = {
@@ -140,13 +142,16 @@ async function apiRequest<T>(
             'Content-Type': 'application/json',
             'Notion-Version': NOTION_VERSION,
         },
+        signal: context?.signal,
     };
 
     if (body) {
         fetchOptions.body = JSON.stringify(body);
     }
 
-    console.log(`[Beddel Notion] ${method} ${endpoint}`);
+    // Endpoints can contain env-resolved IDs
+    const line = `[Beddel Notion] ${method} ${endpoint}`;
+    console.log(context?.env ? context.env.mask(line) : line);
 
     const response = await fetch(url, fetchOptions);
 
@@ -166,7 +171,7 @@ async function apiRequest<T>(
 /**
  * Search pages and databases.
  */
-async function search(config: NotionConfig): Promise<NotionResult> {
+async function search(config: NotionConfig, context: ExecutionContext): Promise<NotionResult> {
     const { query, filter, sorts, pageSize = 100, startCursor } = config;
 
     try {
@@ -181,7 +186,7 @@ async function search(config: NotionConfig): Promise<NotionResult> {
             results: unknown[];
             next_cursor: string | null;
             has_more: boolean;
-        }>('/search', { method: 'POST', body });
+        }>('/search', { method: 'POST', body, context });
 
         return {
             success: true,
@@ -200,7 +205,7 @@ async function search(config: NotionConfig): Promise<NotionResult> {
 /**
  * Retrieve a page by ID.
  */
-async function getPage(config: NotionConfig): Promise<NotionResult> {
+async function getPage(config: NotionConfig, context: ExecutionContext): Promise<NotionResult> {
     const { pageId } = config;
 
     if (!pageId) {
@@ -208,7 +213,7 @@ async function getPage(config: NotionConfig): Promise<NotionResult> {
     }
 
     try {
-        const response = await apiRequest<Record<string, unknown>>(`/pages/${pageId}`);
+        const response = await apiRequest<Record<string, unknown>>(`/pages/${pageId}`, { context });
 
         return {
             success: true,
@@ -224,7 +229,7 @@ async function getPage(config: NotionConfig): Promise<NotionResult> {
 /**
  * Create a new page.
  */
-async function createPage(config: NotionConfig): Promise<NotionResult> {
+async function createPage(config: NotionConfig, context: ExecutionContext): Promise<NotionResult> {
     const { parent, properties, children, icon, cover } = config;
 
     if (!parent || !properties) {
@@ -240,6 +245,7 @@ async function createPage(config: NotionConfig): Promise<NotionResult> {
         const response = await apiRequest<Record<string, unknown>>('/pages', {
             method: 'POST',
             body,
+            context,
         });
 
         return {
@@ -258,7 +264,7 @@ async function createPage(config: NotionConfig): Promise<NotionResult> {
 /**
  * Update page properties.
  */
-async function updatePage(config: NotionConfig): Promise<NotionResult> {
+async function updatePage(config: NotionConfig, context: ExecutionContext): Promise<NotionResult> {
     const { pageId, properties, icon, cover } = config;
 
     if (!pageId) {
@@ -274,6 +280,7 @@ async function updatePage(config: NotionConfig): Promise<NotionResult> {
         const response = await apiRequest<Record<string, unknown>>(`/pages/${pageId}`, {
             method: 'PATCH',
             body,
+            context,
         });
 
         return {
@@ -290,7 +297,7 @@ async function updatePage(config: NotionConfig): Promise<NotionResult> {
 /**
  * Retrieve a database schema.
  */
-async function getDatabase(config: NotionConfig): Promise<NotionResult> {
+async function getDatabase(config: NotionConfig, context: ExecutionContext): Promise<NotionResult> {
     const { databaseId } = config;
 
     if (!databaseId) {
@@ -298,7 +305,7 @@ async function getDatabase(config: NotionConfig): Promise<NotionResult> {
     }
 
     try {
-        const response = await apiRequest<Record<string, unknown>>(`/databases/${databaseId}`);
+        const response = await apiRequest<Record<string, unknown>>(`/databases/${databaseId}`, { context });
 
         return {
             success: true,
@@ -314,7 +321,7 @@ async function getDatabase(config: NotionConfig): Promise<NotionResult> {
 /**
  * Query a database with filters and sorts.
  */
-async function queryDatabase(config: NotionConfig): Promise<NotionResult> {
+async function queryDatabase(config: NotionConfig, context: ExecutionContext): Promise<NotionResult> {
     const { databaseId, filter, sorts, pageSize = 100, startCursor } = config;
 
     if (!databaseId) {
@@ -332,7 +339,7 @@ async function queryDatabase(config: NotionConfig): Promise<NotionResult> {
             results: unknown[];
             next_cursor: string | null;
             has_more: boolean;
-        }>(`/databases/${databaseId}/query`, { method: 'POST', body });
+        }>(`/databases/${databaseId}/query`, { method: 'POST', body, context });
 
         return {
             success: true,
@@ -351,7 +358,7 @@ async function queryDatabase(config: NotionConfig): Promise<NotionResult> {
 /**
  * Get block children of a page or block.
  */
-async function getBlocks(config: NotionConfig): Promise<NotionResult> {
+async function getBlocks(config: NotionConfig, context: ExecutionContext): Promise<NotionResult> {
     const { blockId, pageId, pageSize = 100, startCursor } = config;
     const targetId = blockId || pageId;
 
@@ -369,7 +376,7 @@ async function getBlocks(config: NotionConfig): Promise<NotionResult> {
             results: unknown[];
             next_cursor: string | null;
             has_more: boolean;
-        }>(endpoint);
+        }>(endpoint, { context });
 
         return {
             success: true,
@@ -388,7 +395,7 @@ async function getBlocks(config: NotionConfig): Promise<NotionResult> {
 /**
  * Append blocks to a page or block.
  */
-async function appendBlocks(config: NotionConfig): Promise<NotionResult> {
+async function appendBlocks(config: NotionConfig, context: ExecutionContext): Promise<NotionResult> {
     const { blockId, pageId, children, after } = config;
     const targetId = blockId || pageId;
 
@@ -407,6 +414,7 @@ async function appendBlocks(config: NotionConfig): Promise<NotionResult> {
         }>(endpoint, {
             method: 'PATCH',
             body: { children },
+            context,
         });
 
         return {
@@ -424,7 +432,7 @@ async function appendBlocks(config: NotionConfig): Promise<NotionResult> {
 /**
  * Create a new database.
  */
-async function createDatabase(config: NotionConfig): Promise<NotionResult> {
+async function createDatabase(config: NotionConfig, context: ExecutionContext): Promise<NotionResult> {
     const { parent, title, properties, icon, cover } = config;
 
     if (!parent || !properties) {
@@ -440,6 +448,7 @@ async function createDatabase(config: NotionConfig): Promise<NotionResult> {
         const response = await apiRequest<Record<string, unknown>>('/databases', {
             method: 'POST',
             body,
+            context,
         });
 
         return {
@@ -534,31 +543,31 @@ export const notionPrimitive: PrimitiveHandler = async (
     // Route to appropriate action handler
     switch (resolvedConfig.action) {
         case 'search':
-            return search(resolvedConfig);
+            return search(resolvedConfig, context);
 
         case 'getPage':
-            return getPage(resolvedConfig);
+            return getPage(resolvedConfig, context);
 
         case 'createPage':
-            return createPage(resolvedConfig);
+            return createPage(resolvedConfig, context);
 
         case 'updatePage':
-            return updatePage(resolvedConfig);
+            return updatePage(resolvedConfig, context);
 
         case 'getDatabase':
-            return getDatabase(resolvedConfig);
+            return getDatabase(resolvedConfig, context);
 
         case 'queryDatabase':
-            return queryDatabase(resolvedConfig);
+            return queryDatabase(resolvedConfig, context);
 
         case 'getBlocks':
-            return getBlocks(resolvedConfig);
+            return getBlocks(resolvedConfig, context);
 
         case 'appendBlocks':
-            return appendBlocks(resolvedConfig);
+            return appendBlocks(resolvedConfig, context);
 
         case 'createDatabase':
-            return createDatabase(resolvedConfig);
+            return createDatabase(resolvedConfig, context);
 
         default:
             return {
@@ -64,8 +64,9 @@ function extractJson(text: string): string {
 
 /**
  * Safely parse JSON with error handling.
+ * Also used by the `switch` step to route on JSON output from an llm step.
  */
-function safeJsonParse(text: string): { success: boolean; data?: unknown; error?: string } {
+export function safeJsonParse(text: string): { success: boolean; data?: unknown; error?: string } {
     try {
         const jsonText = extractJson(text);
         const data = JSON.parse(jsonText);
@@ -112,7 +113,8 @@ export const outputPrimitive: PrimitiveHandler = async (
                 context.variables.set('json', parseResult.data);
                 console.log('[Beddel] output-generator: Parsed JSON successfully');
             } else {
-                console.warn(`[Beddel] output-generator: JSON parse failed - ${parseResult.error}`);
+                const warning = `[Beddel] output-generator: JSON parse failed - ${parseResult.error}`;
+                console.warn(context.env ? context.env.mask(warning) : warning);
                 // Set empty object so $json.* references don't break
                 context.variables.set('json', {});
             }
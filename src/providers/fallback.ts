@@ -0,0 +1,155 @@
+/**
+ * Beddel Protocol - Model Fallback Chains
+ * 
+ * Wraps an ordered list of models into one LanguageModel that moves on to
+ * the next candidate when a call fails with a transient error (timeout,
+ * network, rate limit, server error). Streams only fall back before their
+ * first content chunk: once output has been sent, errors are passed through.
+ * 
+ * Server-only: Used by createModel() for steps with `fallbacks`.
+ */
+
+import { wrapLanguageModel, type LanguageModel, type LanguageModelMiddleware } from 'ai';
+import { sanitizeErrorType } from '../core/errors';
+import type { StepErrorType } from '../types/observability';
+
+type LanguageModelV3 = Parameters<NonNullable<LanguageModelMiddleware['wrapGenerate']>>[0]['model'];
+type CallOptions = Parameters<LanguageModelV3['doStream']>[0];
+type StreamResult = Awaited<ReturnType<LanguageModelV3['doStream']>>;
+type StreamPart = StreamResult['stream'] extends ReadableStream<infer T> ? T : never;
+
+/**
+ * A provider/model pair in a fallback chain.
+ */
+export interface ModelCandidate {
+    provider: string;
+    /** Model name (default: the provider's default model) */
+    model?: string;
+    /** Other ProviderConfig settings (e.g., baseURL for openai-compatible) */
+    [key: string]: unknown;
+}
+
+/**
+ * A candidate that served a request, with its resolved model name.
+ */
+export interface ServedModel {
+    provider: string;
+    model: string;
+}
+
+/**
+ * A failed candidate and the candidate tried next.
+ */
+export interface ModelFallback {
+    from: ServedModel;
+    to: ServedModel;
+    /** Why the failed candidate was abandoned */
+    errorType: StepErrorType;
+}
+
+/**
+ * Callbacks reporting what a fallback chain did.
+ */
+export interface FallbackOptions {
+    /** Called each time a candidate fails and the next one is tried */
+    onFallback?: (fallback: ModelFallback) => void;
+    /** Called with the candidate that served the request */
+    onServed?: (model: ServedModel) => void;
+}
+
+/** Error categories that move a chain to its next candidate */
+const FALLBACK_ERROR_TYPES: StepErrorType[] = ['timeout', 'network', 'rate_limited', 'server_error'];
+
+/** Stream parts sent before any output; a stream failing during these can still fall back */
+const PRELUDE_PARTS = ['stream-start', 'response-metadata', 'text-start', 'reasoning-start', 'raw'];
+
+/**
+ * Open a stream and read up to its first content part, so errors that
+ * happen before any output are thrown instead of streamed.
+ */
+async function openStream(model: LanguageModelV3, params: CallOptions): Promise<StreamResult> {
+    const result = await model.doStream(params);
+    const reader = result.stream.getReader();
+    const buffered: StreamPart[] = [];
+
+    try {
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            if (value.type === 'error') throw value.error;
+            buffered.push(value);
+            if (!PRELUDE_PARTS.includes(value.type)) break;
+        }
+    } catch (error) {
+        reader.cancel().catch(() => {});
+        throw error;
+    }
+
+    const stream = new ReadableStream<StreamPart>({
+        start(controller) {
+            buffered.forEach((part) => controller.enqueue(part));
+        },
+        async pull(controller) {
+            const { done, value } = await reader.read();
+            if (done) {
+                controller.close();
+            } else {
+                controller.enqueue(value);
+            }
+        },
+        cancel(reason) {
+            return reader.cancel(reason);
+        },
+    });
+    return { ...result, stream };
+}
+
+/**
+ * Combine models into a single LanguageModel that tries them in order.
+ * 
+ * @param models - Candidates with their created models (first = primary)
+ * @param options - Callbacks for fallbacks and the serving candidate
+ * @throws Error if a model does not implement the v3 model specification
+ */
+export function createFallbackModel(
+    models: { candidate: ServedModel; model: LanguageModel }[],
+    options: FallbackOptions = {}
+): LanguageModel {
+    const chain = models.map(({ candidate, model }) => {
+        if (typeof model === 'string' || model.specificationVersion !== 'v3') {
+            throw new Error(
+                `[Beddel] Provider '${candidate.provider}' cannot be used in a fallback chain: ` +
+                'it does not return a v3 language model'
+            );
+        }
+        return { candidate, model };
+    });
+
+    // Try each candidate in turn; only transient errors move on to the next one
+    const run = async <T>(params: CallOptions, call: (model: LanguageModelV3) => PromiseLike<T>): Promise<T> => {
+        for (let i = 0; ; i++) {
+            const { candidate, model } = chain[i];
+            try {
+                const result = await call(model);
+                options.onServed?.(candidate);
+                return result;
+            } catch (error) {
+                const errorType = sanitizeErrorType(error);
+                const next = chain[i + 1];
+                if (!next || params.abortSignal?.aborted || !FALLBACK_ERROR_TYPES.includes(errorType)) {
+                    throw error;
+                }
+                options.onFallback?.({ from: candidate, to: next.candidate, errorType });
+            }
+        }
+    };
+
+    return wrapLanguageModel({
+        model: chain[0].model,
+        middleware: {
+            specificationVersion: 'v3',
+            wrapGenerate: ({ params }) => run(params, (model) => model.doGenerate(params)),
+            wrapStream: ({ params }) => run(params, (model) => openStream(model, params)),
+        },
+    });
+}
@@ -11,13 +11,23 @@
 import type { LanguageModel } from 'ai';
 import { createGoogleGenerativeAI } from '@ai-sdk/google';
 import { createAmazonBedrock } from '@ai-sdk/amazon-bedrock';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
 import { createOpenRouter } from '@openrouter/ai-sdk-provider';
+import { createFallbackModel, type FallbackOptions, type ModelCandidate } from './fallback';
+
+export type { FallbackOptions, ModelCandidate, ModelFallback, ServedModel } from './fallback';
 
 /**
  * Configuration passed to provider's createModel method.
  */
 export interface ProviderConfig {
     model: string;
+    /** API base URL (openai-compatible; overrides its env var) */
+    baseURL?: string;
+    /** API key (openai-compatible; overrides apiKeyEnv) */
+    apiKey?: string;
+    /** Name of the env var holding the API key (openai-compatible) */
+    apiKeyEnv?: string;
     [key: string]: unknown;
 }
 
@@ -35,6 +45,8 @@ export interface ProviderImplementation {
  * Built-in Providers:
  * - 'google': Google Gemini via @ai-sdk/google
  * - 'bedrock': Amazon Bedrock via @ai-sdk/amazon-bedrock
+ * - 'openrouter': OpenRouter via @openrouter/ai-sdk-provider
+ * - 'openai-compatible': Any OpenAI-compatible server via @ai-sdk/openai-compatible
  */
 export const providerRegistry: Record<string, ProviderImplementation> = {};
 
@@ -66,7 +78,8 @@ export function registerProvider(
 }
 
 /**
- * Create a LanguageModel instance from a registered provider.
+ * Create a LanguageModel instance from a registered provider, or a fallback
+ * chain that tries several candidates in order.
  * 
  * @param provider - Provider name (must be registered in providerRegistry)
  * @param config - Configuration including model name and provider-specific options
@@ -75,14 +88,36 @@ export function registerProvider(
  * 
  * @example
  * const model = createModel('google', { model: 'gemini-1.5-flash' });
+ * 
+ * const chain = createModel(
+ *   [{ provider: 'google', model: 'gemini-2.0-flash' }, { provider: 'bedrock' }],
+ *   { onServed: (served) => console.log(served.provider, served.model) },
+ * );
  */
-export function createModel(provider: string, config: ProviderConfig): LanguageModel {
+export function createModel(provider: string, config: ProviderConfig): LanguageModel;
+export function createModel(candidates: ModelCandidate[], options?: FallbackOptions): LanguageModel;
+export function createModel(
+    provider: string | ModelCandidate[],
+    config?: ProviderConfig | FallbackOptions
+): LanguageModel {
+    if (Array.isArray(provider)) {
+        if (provider.length === 0) {
+            throw new Error('[Beddel] A fallback chain needs at least one model');
+        }
+        const models = provider.map(({ provider: name, model: modelName, ...settings }) => {
+            const model = createModel(name, { ...settings, model: modelName ?? '' });
+            const modelId = typeof model === 'string' ? model : model.modelId;
+            return { candidate: { provider: name, model: modelId }, model };
+        });
+        return createFallbackModel(models, config as FallbackOptions | undefined);
+    }
+
     const impl = providerRegistry[provider];
     if (!impl) {
         const available = Object.keys(providerRegistry).join(', ') || 'none';
         throw new Error(`Unknown provider: '${provider}'. Available: ${available}`);
     }
-    return impl.createModel(config);
+    return impl.createModel(config as ProviderConfig);
 }
 
 // =============================================================================
@@ -141,3 +176,39 @@ registerProvider('openrouter', {
         return openrouter(config.model || 'qwen/qwen3-coder:free');
     },
 });
+
+/**
+ * OpenAI-Compatible Provider (Built-in)
+ * 
+ * Uses @ai-sdk/openai-compatible for local or self-hosted servers that speak
+ * the OpenAI chat completions API (Ollama, llama.cpp, vLLM, LM Studio).
+ * Each setting comes from the config, falling back to an env var:
+ * - baseURL: OPENAI_COMPATIBLE_BASE_URL (e.g., http://localhost:11434/v1)
+ * - apiKey: the env var named by apiKeyEnv (default: OPENAI_COMPATIBLE_API_KEY);
+ *   optional, local servers usually need none
+ * - model: OPENAI_COMPATIBLE_MODEL
+ */
+registerProvider('openai-compatible', {
+    createModel: (config: ProviderConfig): LanguageModel => {
+        const baseURL = config.baseURL || process.env.OPENAI_COMPATIBLE_BASE_URL;
+        if (!baseURL) {
+            throw new Error(
+                "[Beddel] Provider 'openai-compatible' needs a baseURL (config or OPENAI_COMPATIBLE_BASE_URL)"
+            );
+        }
+        const model = config.model || process.env.OPENAI_COMPATIBLE_MODEL;
+        if (!model) {
+            throw new Error(
+                "[Beddel] Provider 'openai-compatible' needs a model (config or OPENAI_COMPATIBLE_MODEL)"
+            );
+        }
+
+        const openaiCompatible = createOpenAICompatible({
+            name: 'openai-compatible',
+            baseURL,
+            apiKey: config.apiKey ?? process.env[config.apiKeyEnv || 'OPENAI_COMPATIBLE_API_KEY'],
+            includeUsage: true,
+        });
+        return openaiCompatible.chatModel(model);
+    },
+});
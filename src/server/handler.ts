@@ -1,76 +1,40 @@
 import { NextRequest } from 'next/server';
-import { loadYaml } from '../core/parser';
 import { WorkflowExecutor } from '../core/workflow';
-import { join, normalize } from 'path';
-import { access } from 'fs/promises';
-import { getBuiltinAgentPath } from '../agents';
+import { WorkflowSuspendedError } from '../core/errors';
+import { isValidRunId } from '../core/checkpoint';
+import type { CheckpointStore } from '../core/checkpoint';
+import { createAgentRegistry } from '../core/agent-registry';
+import { isValidAgentId } from '../agents';
+import type { AgentRegistry } from '../core/agent-registry';
 
 export interface BeddelHandlerOptions {
     /** Path to user-defined agents (relative to CWD). Default: 'src/agents' */
     agentsPath?: string;
     /** Disable built-in agents bundled with the package. Default: false */
     disableBuiltinAgents?: boolean;
+    /** Persist runs so they can be resumed (required for `await-approval` steps) */
+    checkpointStore?: CheckpointStore;
+    /**
+     * Custom agent lookup (e.g., agents stored in a database).
+     * Replaces the default registry, so agentsPath and disableBuiltinAgents are ignored.
+     */
+    agentRegistry?: AgentRegistry;
+    /** Fail on references to missing values in every agent without `metadata.strict`. Default: false */
+    strict?: boolean;
+    /**
+     * Environment variables every agent may read with `$env.NAME`.
+     * Agents declare any others they need in `metadata.env`; the rest are denied.
+     */
+    envAllowlist?: string[];
 }
 
 export type BeddelHandler = (request: NextRequest) => Promise<Response>;
 
-/**
- * Validate agentId to prevent path traversal attacks.
- * Only allows alphanumeric characters, hyphens, and underscores.
- */
-function isValidAgentId(agentId: string): boolean {
-    if (typeof agentId !== 'string' || agentId.length === 0) {
-        return false;
-    }
-    const safePattern = /^[a-zA-Z0-9_-]+$/;
-    return safePattern.test(agentId);
-}
-
-/**
- * Check if a file exists at the given path
- */
-async function fileExists(path: string): Promise<boolean> {
-    try {
-        await access(path);
-        return true;
-    } catch {
-        return false;
-    }
-}
-
-/**
- * Resolve agent path with fallback chain:
- * 1. User agents (agentsPath) - allows override
- * 2. Built-in agents (package) - fallback
- */
-async function resolveAgentPath(
-    agentId: string,
-    userAgentsPath: string,
-    disableBuiltinAgents: boolean
-): Promise<string> {
-    // 1. First: try user agents (allows override of built-in)
-    const basePath = join(process.cwd(), userAgentsPath);
-    const userPath = normalize(join(basePath, `${agentId}.yaml`));
-    
-    // Security: ensure resolved path is within user agents directory
-    if (userPath.startsWith(basePath) && await fileExists(userPath)) {
-        return userPath;
-    }
-
-    // 2. Fallback: built-in agents from package (supports subfolder structure)
-    if (!disableBuiltinAgents) {
-        const builtinPath = getBuiltinAgentPath(agentId);
-        if (builtinPath && await fileExists(builtinPath)) {
-            return builtinPath;
-        }
-    }
-
-    throw new Error(`Agent not found: ${agentId}`);
-}
-
 export function createBeddelHandler(options: BeddelHandlerOptions = {}): BeddelHandler {
-    const agentsPath = options.agentsPath || 'src/agents';
-    const disableBuiltinAgents = options.disableBuiltinAgents || false;
+    const agentRegistry = options.agentRegistry ?? createAgentRegistry({
+        agentsPath: options.agentsPath,
+        disableBuiltinAgents: options.disableBuiltinAgents,
+    });
 
     return async function POST(request: NextRequest): Promise<Response> {
         try {
@@ -84,18 +48,49 @@ export function createBeddelHandler(options: BeddelHandlerOptions = {}): BeddelH
             // Security: Validate agentId to prevent path traversal
             if (!isValidAgentId(agentId)) {
                 return Response.json(
-                    { error: 'Invalid agentId: only alphanumeric characters, hyphens, and underscores allowed' },
+                    { error: 'Invalid agentId: only alphanumeric characters, hyphens, and underscores allowed (folders separated by "/")' },
                     { status: 400 }
                 );
             }
 
-            // Resolve agent path with fallback chain
-            const fullPath = await resolveAgentPath(agentId, agentsPath, disableBuiltinAgents);
-            
-            const yaml = await loadYaml(fullPath);
+            // runId + decision resume a suspended run; without a checkpoint for
+            // the runId, both are ordinary input
+            const checkpoint = options.checkpointStore && isValidRunId(body.runId)
+                ? await options.checkpointStore.load(body.runId)
+                : null;
+
+            // A run is only resumed through the agent that started it
+            if (checkpoint && checkpoint.agentId !== agentId) {
+                return Response.json(
+                    { error: `No run "${checkpoint.runId}" found for agent "${agentId}"` },
+                    { status: 404 }
+                );
+            }
+
+            if (checkpoint && checkpoint.status !== 'suspended') {
+                return Response.json(
+                    { error: `Run "${checkpoint.runId}" is not waiting for a decision` },
+                    { status: 409 }
+                );
+            }
+
+            if (checkpoint && body.decision === undefined) {
+                return Response.json({ error: 'decision is required to resume a run' }, { status: 400 });
+            }
+
+            // Resolve agent with fallback chain (user agents, then built-ins)
+            const yaml = await agentRegistry.get(agentId);
 
-            const executor = new WorkflowExecutor(yaml);
-            const result = await executor.execute(input);
+            const executor = new WorkflowExecutor(yaml, {
+                checkpointStore: options.checkpointStore,
+                agentRegistry,
+                strict: options.strict,
+                envAllowlist: options.envAllowlist,
+            });
+            // Cancel the run if the client disconnects
+            const result = checkpoint
+                ? await executor.resume(checkpoint.runId, { signal: request.signal, decision: body.decision, agentId })
+                : await executor.execute(input, { signal: request.signal, agentId });
 
             if (result instanceof Response) {
                 return result;
@@ -103,6 +98,14 @@ export function createBeddelHandler(options: BeddelHandlerOptions = {}): BeddelH
 
             return Response.json(result);
         } catch (error) {
+            // A suspended run is waiting for a decision, not failed
+            if (error instanceof WorkflowSuspendedError) {
+                return Response.json(
+                    { status: 'suspended', runId: error.runId, stepId: error.stepId, payload: error.payload },
+                    { status: 202 }
+                );
+            }
+
             console.error('[Beddel] Handler Error:', error);
             return Response.json(
                 { error: error instanceof Error ? error.message : 'Internal Server Error' },
@@ -3,7 +3,11 @@
  * Core interfaces for the workflow engine
  */
 
-import type { StepEvent, ObservabilityConfig } from './observability';
+import type { DeepPartial, UIMessage } from 'ai';
+import type { StepEvent, ObservabilityConfig, StepErrorType } from './observability';
+import type { AgentRegistry } from '../core/agent-registry';
+import type { EnvAccess } from '../core/env';
+import type { ModelFallback, ServedModel } from '../providers/fallback';
 
 // Re-export observability types
 export type {
@@ -12,6 +16,11 @@ export type {
   StepStartEvent,
   StepCompleteEvent,
   StepErrorEvent,
+  StepSkipEvent,
+  StepRetryEvent,
+  StepBranchEvent,
+  StepFallbackEvent,
+  StepErrorType,
   StepEvent,
 } from './observability';
 
@@ -30,6 +39,14 @@ export interface YamlMetadata {
     builtin?: boolean;
     /** Observability configuration for trace collection */
     observability?: ObservabilityConfig;
+    /** Maximum duration of the whole workflow in milliseconds */
+    timeout?: number;
+    /** Fail on references to missing values (overrides the executor's `strict` option) */
+    strict?: boolean;
+    /** Environment variables this agent may read with `$env.NAME` */
+    env?: string[];
+    /** Other keys (e.g., `author`) are kept for tooling */
+    [key: string]: unknown;
 }
 
 /**
@@ -55,6 +72,41 @@ export interface BeddelResponse<T = unknown> {
     error?: string;
 }
 
+/**
+ * Data parts streamed by the `chat` primitive, keyed by name
+ * (`data-trace`, `data-object`).
+ * 
+ * @typeParam T - Shape of the step's `schema:` object
+ */
+export type BeddelDataTypes<T = unknown> = {
+    /** Execution trace (transient: only delivered to onData) */
+    trace: { events: StepEvent[] };
+    /** Object parsed so far from a chat step with a `schema:`; complete once the stream ends */
+    object: DeepPartial<T>;
+};
+
+/**
+ * Metadata of assistant messages streamed by the `chat` primitive.
+ */
+export type BeddelMessageMetadata = {
+    /** Model that answered (set on finish, for steps with `fallbacks`) */
+    model?: ServedModel;
+};
+
+/**
+ * UIMessage type for useChat with Beddel chat agents.
+ * 
+ * @example
+ * ```typescript
+ * import type { BeddelUIMessage } from 'beddel/client';
+ * 
+ * interface LeadScore { score: number; reasons: string[] }
+ * const { messages } = useChat<BeddelUIMessage<LeadScore>>({ ... });
+ * const lead = messages.at(-1)?.parts.find((part) => part.type === 'data-object')?.data;
+ * ```
+ */
+export type BeddelUIMessage<T = unknown> = UIMessage<BeddelMessageMetadata, BeddelDataTypes<T>>;
+
 /**
  * Configuration for a workflow step
  * Contents vary by step type (llm, output-generator, call-agent)
@@ -63,6 +115,62 @@ export interface StepConfig {
     [key: string]: unknown;
 }
 
+/**
+ * Retry policy for a workflow step.
+ * Delay before attempt n+1 is `backoff * 2^(n-1)` milliseconds, optionally jittered.
+ */
+export interface RetryPolicy {
+    /** Total attempts including the first one (default: 3) */
+    maxAttempts?: number;
+    /** Base backoff delay in milliseconds (default: 500) */
+    backoff?: number;
+    /** Randomize each delay between 50% and 100% of its value (default: true) */
+    jitter?: boolean;
+    /** Error categories that trigger a retry (default: timeout, network, rate_limited, server_error) */
+    retryOn?: StepErrorType[];
+}
+
+/**
+ * Error details exposed to `onError` steps and the workflow `catch` template as `$error`.
+ */
+export interface StepErrorInfo {
+    /** Sanitized error category (same as trace `errorType`) */
+    type: StepErrorType;
+    /** ID of the step that failed */
+    stepId: string;
+    /** Original error message (do not return it to clients unless it is safe) */
+    message: string;
+}
+
+/**
+ * A step recorded by a dry run instead of being executed.
+ */
+export interface PlannedStep {
+    stepId: string;
+    type: string;
+    /** ID of the enclosing control-flow step (only for nested steps) */
+    parentStepId?: string;
+    /** Zero-based foreach iteration (only for steps inside a foreach) */
+    iteration?: number;
+    /** Set when the step's `if`/`unless` condition would skip it */
+    skipped?: 'if' | 'unless';
+    /** Step config after variable resolution, with secrets masked */
+    config?: StepConfig;
+    /** `$` references in the config that could not be resolved */
+    unresolved?: string[];
+    /** Strict mode: lint issues for the step, as "key: message" */
+    lint?: string[];
+}
+
+/**
+ * State of a dry run: the plan being recorded and the stubbed step outputs.
+ */
+export interface DryRunState {
+    plan: PlannedStep[];
+    /** Outputs used in place of running each step, keyed by step ID */
+    stubs: Record<string, unknown>;
+}
+
 /**
  * Individual workflow step definition
  */
@@ -75,6 +183,24 @@ export interface WorkflowStep {
     config: StepConfig;
     /** Optional variable name to store step result */
     result?: string;
+    /**
+     * Optional condition: the step only runs when this resolves to a truthy value.
+     * When skipped, `result` (if set) is stored as `{ skipped: true }`.
+     */
+    if?: string;
+    /** Optional condition: the step is skipped when this resolves to a truthy value */
+    unless?: string;
+    /** Optional retry policy for transient failures */
+    retry?: RetryPolicy;
+    /** Optional maximum duration of each attempt in milliseconds */
+    timeout?: number;
+    /**
+     * Store `{ error: StepErrorInfo }` as the step result instead of failing the workflow.
+     * Also applies when an `onError` fallback fails.
+     */
+    continueOnError?: boolean;
+    /** Fallback steps run when this step fails; `$error` holds the StepErrorInfo */
+    onError?: WorkflowStep[];
 }
 
 /**
@@ -85,6 +211,8 @@ export interface ParsedYaml {
     workflow: WorkflowStep[];
     /** Optional explicit return template for API response shaping */
     return?: unknown;
+    /** Optional response template used when the workflow fails; `$error` holds the StepErrorInfo */
+    catch?: unknown;
 }
 
 /**
@@ -98,6 +226,27 @@ export interface ExecutionContext {
     variables: Map<string, unknown>;
     /** Trace array for observability (only present when enabled) */
     trace?: StepEvent[];
+    /**
+     * Aborted when the current step or the workflow times out (or the caller cancels).
+     * Primitives should pass it to fetch/generateText/streamText so work is actually cancelled.
+     */
+    signal?: AbortSignal;
+    /** Dry-run state (only present in dry-run mode, when primitives are not called) */
+    dryRun?: DryRunState;
+    /** Agent lookup for `call-agent` steps (set by the handler or WorkflowExecutorOptions) */
+    agentRegistry?: AgentRegistry;
+    /** Whether the run is in strict mode; `call-agent` passes it on as the sub-agent's default */
+    strict?: boolean;
+    /** Env access policy of the run; without one, `$env` reads process.env unrestricted */
+    env?: EnvAccess;
+    /** ID of the run (`$run.id`); also set on trace events */
+    runId?: string;
+    /** Agent metadata exposed as `$agent` */
+    agent?: { name: string; version: string };
+    /** Step being run, exposed as `$step` */
+    step?: { id: string; type: string };
+    /** Reports a switch to the next model of an llm/chat step's `fallbacks` (emits step-fallback) */
+    onModelFallback?: (fallback: ModelFallback) => void;
 }
 
 /**
@@ -12,23 +12,44 @@ export interface ObservabilityConfig {
   enabled: boolean;
 }
 
+/**
+ * Sanitized error categories reported in trace events.
+ * Never contains the underlying error message.
+ */
+export type StepErrorType =
+  | 'timeout'
+  | 'auth_failed'
+  | 'validation'
+  | 'network'
+  | 'rate_limited'
+  | 'server_error'
+  | 'unknown';
+
 /**
  * Base fields for all step events.
  * SECURITY: Contains ONLY structural metadata, never step results.
  */
 export interface StepEventBase {
   /** Event type discriminator */
-  type: 'step-start' | 'step-complete' | 'step-error';
+  type: 'step-start' | 'step-complete' | 'step-error' | 'step-skip' | 'step-retry' | 'step-branch' | 'step-fallback';
   /** Unique identifier of the workflow step */
   stepId: string;
   /** Primitive type of the step (e.g., 'chat', 'llm', 'mcp-tool') */
   stepType: string;
-  /** Zero-based index of the step in the workflow */
+  /** Zero-based index of the step in the workflow (or in its parent's step list) */
   stepIndex: number;
-  /** Total number of steps in the workflow */
+  /** Total number of steps in the workflow (or in its parent's step list) */
   totalSteps: number;
   /** Unix timestamp (milliseconds) when the event was emitted */
   timestamp: number;
+  /** ID of the enclosing control-flow step (foreach, parallel) for nested steps */
+  parentStepId?: string;
+  /** Zero-based iteration of the enclosing foreach step */
+  iteration?: number;
+  /** One-based attempt number (only present for steps with a retry policy) */
+  attempt?: number;
+  /** ID of the run that emitted the event (`$run.id`) */
+  runId?: string;
 }
 
 /**
@@ -53,12 +74,66 @@ export interface StepCompleteEvent extends StepEventBase {
 export interface StepErrorEvent extends StepEventBase {
   type: 'step-error';
   /** Sanitized error type (never exposes full error message) */
-  errorType: 'timeout' | 'auth_failed' | 'validation' | 'network' | 'unknown';
+  errorType: StepErrorType;
   /** Execution duration in milliseconds until failure */
   duration: number;
 }
 
+/**
+ * Event emitted when a workflow step is skipped by its `if`/`unless` condition
+ */
+export interface StepSkipEvent extends StepEventBase {
+  type: 'step-skip';
+  /** Which condition caused the skip */
+  reason: 'if' | 'unless';
+}
+
+/**
+ * Event emitted when a step attempt fails and will be retried
+ */
+export interface StepRetryEvent extends StepEventBase {
+  type: 'step-retry';
+  /** Sanitized error type of the failed attempt */
+  errorType: StepErrorType;
+  /** Duration of the failed attempt in milliseconds */
+  duration: number;
+  /** Delay in milliseconds before the next attempt */
+  delay: number;
+}
+
+/**
+ * Event emitted when a switch step selects a branch
+ */
+export interface StepBranchEvent extends StepEventBase {
+  type: 'step-branch';
+  /** Matched case key, 'default', or null when no branch ran */
+  branch: string | null;
+}
+
+/**
+ * Event emitted when an llm/chat step's model fails and the next model in
+ * its `fallbacks` is tried. The last one names the model that answered.
+ */
+export interface StepFallbackEvent extends StepEventBase {
+  type: 'step-fallback';
+  /** Sanitized error type of the failed model */
+  errorType: StepErrorType;
+  /** Provider and model that failed */
+  failedProvider: string;
+  failedModel: string;
+  /** Provider and model tried next */
+  provider: string;
+  model: string;
+}
+
 /**
  * Union type for all step events
  */
-export type StepEvent = StepStartEvent | StepCompleteEvent | StepErrorEvent;
+export type StepEvent =
+  | StepStartEvent
+  | StepCompleteEvent
+  | StepErrorEvent
+  | StepSkipEvent
+  | StepRetryEvent
+  | StepBranchEvent
+  | StepFallbackEvent;